@@ -1 +1,3 @@
 export { Fighter } from '../../qte/fighter';
+export { resolveCombat, canHit, createBlast } from '../../qte/combat';
+export { DEFAULT_MATCH_RULES, applyMatchRules, usesHp, type MatchRules, type MatchMode } from '../../qte/matchRules';
@@ -1 +1,2 @@
 export { createGame } from '../qte/gameLoop';
+export { createSimulation, Simulation } from '../qte/simulation';
@@ -34,6 +34,10 @@ export interface CharacterConfig {
   emoji: string;
   overrides?: Record<string, AnimationOverride>;
   extraAtlas?: string[];
+  // character id of the alternate form used by Transform (see transform.ts)
+  transformInto?: string;
+  // seconds of flight on a full stamina gauge (see flight.ts)
+  flyCapacity?: number;
 }
 
 export const CHARACTERS: CharacterConfig[] = [
@@ -87,7 +91,9 @@ export const CHARACTERS: CharacterConfig[] = [
       parry: { src: "", frames: 4, fps: 3.33, loop: false }, // Laurin's slow parry animation
     }
     ,
-    extraAtlas: ["/qte/Laurin/atlas4_1.json", "/qte/Laurin/atlas4.json"]
+    extraAtlas: ["/qte/Laurin/atlas4_1.json", "/qte/Laurin/atlas4.json"],
+    transformInto: "laurin2",
+    flyCapacity: 2.0
   }
   ,
   {
@@ -99,7 +105,9 @@ export const CHARACTERS: CharacterConfig[] = [
     emoji: "🧑‍💼",
     overrides: {
       // atlas4_1 provides additional frames/animations; no overrides required
-    }
+    },
+    transformInto: "laurin",
+    flyCapacity: 2.5
   }
   ,
   {
@@ -119,7 +127,8 @@ export const CHARACTERS: CharacterConfig[] = [
       parry: { src: "", frames: 6, fps: 3.33 },
       projectile: { src: "/qte/granny/projectile_256x256_6.png", frames: 6, fps: 15, loop: true },
       hurt: { src: "/qte/granny/hurt_256x256_4.png", frames: 4, fps: 15 },
-    }
+    },
+    flyCapacity: 3.0
   }
 ];
 
@@ -182,6 +191,38 @@ export function buildSpriteConfig(
       frameW: 256,
       frameH: 256,
     },
+    shield: {
+      src: "", // Will be patched by atlas system (falls back to the first parry frame)
+      frames: 1,
+      fps: 12,
+      loop: false, // held on the last frame while shielding
+      frameW: 256,
+      frameH: 256,
+    },
+    transform: {
+      src: "", // Will be patched by atlas system (falls back to the spawn frames)
+      frames: 6,
+      fps: 12,
+      loop: false,
+      frameW: 256,
+      frameH: 256,
+    },
+    super: {
+      src: "", // Will be patched by atlas system (falls back to the attack2 frames)
+      frames: 7,
+      fps: 12,
+      loop: false,
+      frameW: 256,
+      frameH: 256,
+    },
+    ledge: {
+      src: "", // Will be patched by atlas system (falls back to the last jump frame)
+      frames: 1,
+      fps: 12,
+      loop: false, // held while hanging
+      frameW: 256,
+      frameH: 256,
+    },
     spawn: {
       src: `/qte/${base}/spawn_256x256_6.png`,
       frames: framesFromFilename(`/qte/${base}/spawn_256x256_6.png`, 6),
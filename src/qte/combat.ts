@@ -0,0 +1,363 @@
+// Generic combat pass: grabs and throws, melee hits, projectile hits and
+// clashes, parries (which reflect projectiles), shields, impact blasts and
+// explosion area damage between any pair of combatants. Who may hit whom is decided by the
+// fighters' team ids (see Fighter.team) instead of hardcoded P1/P2 pairs,
+// so NPCs like Granny and extra players take part like everyone else.
+
+import { Fighter, Projectile, Blast } from "./fighter";
+import { DEFAULT_PROJECTILE_DAMAGE, type ExplosionDef } from "./moves";
+import { P1_BLAST_SRC } from "./assetRegistry";
+import { usesHp, type MatchRules } from "./matchRules";
+import { hitstopFrames, PARRY_HITSTOP_FRAMES } from "./hitstop";
+import type { ComboTracker } from "./combo";
+import { chipDamage } from "./shield";
+import { THROWS, GRAB_HOLD_OFFSET, throwAngle } from "./grab";
+import { collideWithTerrain } from "./projectileTerrain";
+import { awardMeter } from "./superMeter";
+
+export type CombatEvent =
+  | { type: "hit"; kind: "melee" | "projectile" | "throw" | "blast"; attacker: string; target: string; damage: number; knockback: number }
+  | { type: "parry"; kind: "melee" | "projectile"; attacker: string; defender: string }
+  | { type: "grab"; attacker: string; target: string }
+  | { type: "clash"; owners: [string, string]; x: number; y: number }
+  | { type: "block"; kind: "melee" | "projectile" | "blast"; attacker: string; defender: string; chip: number; broke: boolean };
+
+export interface CombatContext {
+  /** allow hits between fighters that share a team */
+  friendlyFire?: boolean;
+  /** damage model; stamina rules subtract HP instead of adding percent (default: stock) */
+  rules?: MatchRules;
+  /** stage solidity for projectile impacts (swept along each shot's path) */
+  isSolidAt?: (x: number, y: number) => boolean;
+  /** spawn a blast; with `explosion` it deals area damage (see resolveBlasts) */
+  spawnBlast: (owner: Fighter | null, x: number, y: number, explosion?: ExplosionDef) => void;
+  events: CombatEvent[];
+  /** combo bookkeeping (hit counter / combo damage for the HUD) */
+  combos?: ComboTracker;
+}
+
+// speed multiplier for projectiles reflected by a parry
+const REFLECT_SPEEDUP = 1.5;
+
+export function aabb(a: { x: number; y: number; w: number; h: number }, b: { x: number; y: number; w: number; h: number }) {
+  return !(a.x + a.w < b.x || b.x + b.w < a.x || a.y + a.h < b.y || b.y + b.h < a.y);
+}
+
+/** Whether `attacker` is allowed to damage `defender`. */
+export function canHit(attacker: Fighter, defender: Fighter, friendlyFire = false): boolean {
+  if (attacker === defender) return false;
+  if (defender.state === "defeat") return false;
+  // ledge / roll invincibility
+  if (defender.invincible) return false;
+  return friendlyFire || attacker.team !== defender.team;
+}
+
+/**
+ * Default blast for a projectile owner: the owner's own 'blast' atlas frames
+ * when the animator has them, otherwise its blast sprite sheet.
+ */
+export function createBlast(owner: Fighter | null, x: number, y: number): Blast {
+  const a = owner && owner.anim.animations["blast"];
+  if (a && a.rects && a.rects.length > 0 && a.image) {
+    return new Blast(x, y, a.src || P1_BLAST_SRC, a.rects.length, a.image, a.rects);
+  }
+  return new Blast(x, y, (a && a.src) || P1_BLAST_SRC, 4);
+}
+
+/**
+ * Deal the burn a fighter built up this tick. Percent rules add it as percent;
+ * stamina rules take a ranged hit's HP for every DEFAULT_PROJECTILE_DAMAGE.percent
+ * burned, keeping the rest for later ticks.
+ */
+export function applyBurn(f: Fighter, rules?: MatchRules) {
+  if (f.burnPending <= 0) return;
+  if (!rules || !usesHp(rules)) {
+    f.damagePercent += f.burnPending;
+    f.burnPending = 0;
+    return;
+  }
+  while (f.burnPending >= DEFAULT_PROJECTILE_DAMAGE.percent) {
+    f.burnPending -= DEFAULT_PROJECTILE_DAMAGE.percent;
+    f.takeDamage(Math.max(1, Math.ceil((f.maxHp || 1) / 12)));
+  }
+}
+
+/** Run melee, projectile and explosion resolution for every eligible pair of combatants. */
+export function resolveCombat(combatants: Fighter[], projectiles: Projectile[], ctx: CombatContext, blasts: Blast[] = []) {
+  const firstEvent = ctx.events.length;
+  for (const attacker of combatants) {
+    if (attacker.holding && attacker.pendingThrow) resolveThrow(attacker, ctx);
+  }
+  // grabs go before melee so they beat shields and parries
+  for (const attacker of combatants) {
+    for (const defender of combatants) {
+      if (canHit(attacker, defender, ctx.friendlyFire)) resolveGrab(attacker, defender, ctx);
+    }
+  }
+  for (const attacker of combatants) {
+    for (const defender of combatants) {
+      if (canHit(attacker, defender, ctx.friendlyFire)) resolveMelee(attacker, defender, ctx);
+    }
+  }
+  resolveClashes(projectiles, ctx);
+  resolveProjectiles(combatants, projectiles, ctx);
+  resolveBlasts(combatants, blasts, ctx);
+  // hits, parries and blocks of this pass fill the super meters
+  awardMeter(combatants, ctx.events.slice(firstEvent));
+}
+
+/** Opposing projectiles that touch cancel each other with a blast at the contact point. */
+export function resolveClashes(projectiles: Projectile[], ctx: CombatContext) {
+  for (let i = 0; i < projectiles.length; i++) {
+    const a = projectiles[i];
+    if (!a.alive) continue;
+    for (let j = i + 1; j < projectiles.length; j++) {
+      const b = projectiles[j];
+      if (!b.alive || a.owner === b.owner) continue;
+      if (!ctx.friendlyFire && a.owner.team === b.owner.team) continue;
+      const ra = a.rect();
+      const rb = b.rect();
+      if (!aabb(ra, rb)) continue;
+      a.alive = false;
+      b.alive = false;
+      // midpoint between the two centers
+      const x = (ra.x + ra.w * 0.5 + rb.x + rb.w * 0.5) * 0.5;
+      const y = (ra.y + ra.h * 0.5 + rb.y + rb.h * 0.5) * 0.5;
+      ctx.spawnBlast(a.owner, x, y);
+      ctx.events.push({ type: "clash", owners: [a.owner.name, b.owner.name], x, y });
+      break;
+    }
+  }
+}
+
+/** Land `attacker`'s grab on `defender`; shields and parries don't stop it. */
+export function resolveGrab(attacker: Fighter, defender: Fighter, ctx: CombatContext) {
+  const box = attacker.grabBox();
+  if (!box || defender.heldBy || defender.holding) return;
+  if (!defender.hurtboxes().some((r) => aabb(box, r))) return;
+  attacker.grab(defender);
+  ctx.events.push({ type: "grab", attacker: attacker.name, target: defender.name });
+}
+
+/** Carry out the throw `attacker` picked for the fighter it holds. */
+export function resolveThrow(attacker: Fighter, ctx: CombatContext) {
+  const target = attacker.holding;
+  const dir = attacker.pendingThrow;
+  if (!target || !dir) return;
+  const t = THROWS[dir];
+  attacker.releaseGrab();
+  // a back throw swings the target behind the grabber first
+  const push = dir === "back" ? -attacker.facing : attacker.facing;
+  if (dir === "back") target.x = attacker.x - attacker.facing * attacker.w * GRAB_HOLD_OFFSET;
+  let knockback = t.baseKB;
+  if (ctx.rules && usesHp(ctx.rules)) {
+    const hpDamage = Math.ceil((target.maxHp || 1) / 3);
+    ctx.combos?.registerHit(attacker, target, hpDamage);
+    target.takeDamage(hpDamage);
+  } else {
+    ctx.combos?.registerHit(attacker, target, t.damage);
+    target.receiveHit(t.damage, t.baseKB, t.strength, throwAngle(t.angle, push));
+    knockback = target.lastKnockback;
+  }
+  const frames = hitstopFrames(t.damage);
+  attacker.applyHitstop(frames);
+  target.applyHitstop(frames);
+  target.lastHitBy = attacker.name;
+  console.log(`[qte] ${attacker.name} ${dir}-threw ${target.name}`);
+  ctx.events.push({ type: "hit", kind: "throw", attacker: attacker.name, target: target.name, damage: t.damage, knockback });
+}
+
+export function resolveMelee(attacker: Fighter, defender: Fighter, ctx: CombatContext) {
+  if (!attacker.attacking1 && !attacker.attacking2) return;
+  // Only hit each defender once per attack animation
+  if (attacker.meleeVictims.includes(defender)) return;
+  // first active hitbox on this frame that overlaps any of the defender's hurtboxes
+  const hurt = defender.hurtboxes();
+  const hb = attacker.activeHitboxes().find((h) => hurt.some((r) => aabb(h, r)));
+  if (!hb) return;
+  attacker.meleeVictims.push(defender);
+  if (attacker.attacking1) attacker.attack1Launched = true;
+  else attacker.attack2Launched = true;
+
+  // Check if the defender can parry the attack (no window restriction)
+  if (defender.parrying && !defender.parryConsumed) {
+    defender.parryConsumed = true;
+    defender.applyHitstop(PARRY_HITSTOP_FRAMES);
+    attacker.applyHitstop(PARRY_HITSTOP_FRAMES);
+    ctx.events.push({ type: "parry", kind: "melee", attacker: attacker.name, defender: defender.name });
+    if (attacker.ranging1 || attacker.ranging2) {
+      console.log(`[qte] ${defender.name} successfully ranged-parried ${attacker.name}'s ranged attack: damage negated`);
+    } else {
+      // attack parry: reflect a smaller percent + knockback back to the attacker
+      console.log(`[qte] ${defender.name} successfully attack-parried ${attacker.name}'s melee attack: reflecting`);
+      attacker.receiveHit(20, 120, 1.0, (defender.x < attacker.x) ? Math.PI : 0);
+      attacker.lastHitBy = defender.name;
+    }
+    return;
+  }
+
+  if (defender.shielding) {
+    blockWithShield(attacker.name, defender, hb.damage, "melee", (attacker.x < defender.x) ? 1 : -1, ctx);
+    attacker.applyHitstop(hitstopFrames(hb.damage));
+    return;
+  }
+
+  // No parry or parry already consumed - melee hit
+  let knockback = hb.baseKB;
+  if (ctx.rules && usesHp(ctx.rules)) {
+    // melee should subtract 1/3 of target max HP
+    const hpDamage = Math.ceil((defender.maxHp || 1) / 3);
+    ctx.combos?.registerHit(attacker, defender, hpDamage);
+    defender.takeDamage(hpDamage);
+  } else {
+    ctx.combos?.registerHit(attacker, defender, hb.damage);
+    // percent/knockback from the hitbox's frame data; the angle is mirrored
+    // so that 0 always pushes away from the attacker
+    const rad = (hb.angle * Math.PI) / 180;
+    defender.receiveHit(hb.damage, hb.baseKB, hb.strength, (attacker.x < defender.x) ? Math.PI - rad : rad);
+    knockback = defender.lastKnockback;
+  }
+  const move = attacker.attacking1 ? attacker.moves.attack1 : attacker.moves.attack2;
+  if (move.status) defender.applyStatus(move.status);
+  // both fighters freeze on impact
+  const frames = hitstopFrames(hb.damage);
+  attacker.applyHitstop(frames);
+  defender.applyHitstop(frames);
+  defender.lastHitBy = attacker.name;
+  ctx.events.push({ type: "hit", kind: "melee", attacker: attacker.name, target: defender.name, damage: hb.damage, knockback });
+}
+
+export function resolveProjectiles(combatants: Fighter[], projectiles: Projectile[], ctx: CombatContext) {
+  for (const pr of projectiles) {
+    if (!pr.alive) continue;
+    // Terrain collision along the path: ricochet, or blast at the impact point
+    try {
+      const hit = ctx.isSolidAt ? collideWithTerrain(pr, ctx.isSolidAt) : null;
+      if (hit) {
+        ctx.spawnBlast(pr.owner, hit.x, hit.y, pr.type.explosion);
+        pr.alive = false;
+        continue;
+      }
+    } catch (e) { /* defensive */ }
+    // explosive shots go off when their fuse (lifespan) runs out
+    if (pr.type.explosion && pr.age >= pr.lifespan) {
+      detonate(pr, ctx);
+      continue;
+    }
+
+    const target = combatants.find((t) => canHit(pr.owner, t, ctx.friendlyFire) && pr.canHitTarget(t) && aabb(pr.rect(), t.rect()));
+    if (!target) continue;
+    pr.registerHit(target);
+    // Check if the target can parry the projectile (no window restriction)
+    if (target.parrying && !target.parryConsumed) {
+      // Successful parry - no damage, stun attacker and reflect the shot at them
+      target.parryConsumed = true;
+      target.applyHitstop(PARRY_HITSTOP_FRAMES);
+      pr.owner.stunTimer = 1.2;
+      ctx.events.push({ type: "parry", kind: "projectile", attacker: pr.owner.name, defender: target.name });
+      console.log(`[qte] ${target.name} parried and reflected ${pr.owner.name}'s projectile`);
+      pr.reflect(target, REFLECT_SPEEDUP);
+      continue;
+    } else if (pr.type.explosion) {
+      // explosive shots deal only their area damage
+      detonate(pr, ctx);
+      continue;
+    } else if (target.shielding) {
+      blockWithShield(pr.owner.name, target, pr.damage.percent, "projectile", (pr.vx < 0) ? -1 : 1, ctx);
+    } else {
+      // No parry or parry already consumed - ranged hits cost HP only under stamina rules
+      const stamina = !!ctx.rules && usesHp(ctx.rules);
+      const hpDamage = Math.max(1, Math.ceil((target.maxHp || 1) / 12));
+      ctx.combos?.registerHit(pr.owner, target, stamina ? hpDamage : pr.damage.percent);
+      let knockback = 0;
+      if (stamina) {
+        target.takeDamage(hpDamage);
+      } else if (pr.applyKnockbackOnHit) {
+        // percent/knockback when the projectile carries knockback; like melee,
+        // the angle points back at the source: a shot flying left came from the right
+        target.receiveHit(pr.damage.percent, pr.damage.baseKB, pr.damage.strength, (pr.vx < 0) ? 0 : Math.PI);
+        knockback = target.lastKnockback;
+      } else {
+        // fallback: small percent increase
+        target.damagePercent += pr.damage.percent;
+        console.log(`[qte] ${target.name} percent increased to ${target.damagePercent}`);
+      }
+      if (pr.status) target.applyStatus(pr.status);
+      // only the target freezes; the shooter is usually far away
+      target.applyHitstop(hitstopFrames(pr.damage.percent));
+      target.lastHitBy = pr.owner.name;
+      ctx.events.push({ type: "hit", kind: "projectile", attacker: pr.owner.name, target: target.name, damage: pr.damage.percent, knockback });
+    }
+    // piercing and multi-hit shots keep flying
+    if (pr.type.hit === "single") pr.alive = false;
+    // spawn blast at projectile impact position
+    const r = pr.rect();
+    ctx.spawnBlast(pr.owner, r.x + r.w * 0.5, r.y + r.h * 0.5);
+  }
+}
+
+function detonate(pr: Projectile, ctx: CombatContext) {
+  pr.alive = false;
+  const r = pr.rect();
+  ctx.spawnBlast(pr.owner, r.x + r.w * 0.5, r.y + r.h * 0.5, pr.type.explosion);
+}
+
+/**
+ * Explosion area damage: every combatant the owner may hit whose body is
+ * within the radius is hit once, with percent and knockback falling off
+ * towards the edge and the launch pointing away from the blast center.
+ */
+export function resolveBlasts(combatants: Fighter[], blasts: Blast[], ctx: CombatContext) {
+  for (const b of blasts) {
+    const ex = b.explosion;
+    if (!b.alive || !ex || !b.owner) continue;
+    for (const target of combatants) {
+      if (b.hit.has(target) || !canHit(b.owner, target, ctx.friendlyFire)) continue;
+      // distance from the blast center to the closest point of the target's body
+      const r = target.rect();
+      const dx = Math.max(r.x - b.x, 0, b.x - (r.x + r.w));
+      const dy = Math.max(r.y - b.y, 0, b.y - (r.y + r.h));
+      const dist = Math.hypot(dx, dy);
+      if (dist > ex.radius) continue;
+      b.hit.add(target);
+      const scale = 1 - (1 - ex.falloff) * (dist / ex.radius);
+      const percent = ex.damage.percent * scale;
+      const push = (r.x + r.w * 0.5 >= b.x) ? 1 : -1;
+      if (target.shielding) {
+        blockWithShield(b.owner.name, target, percent, "blast", push, ctx);
+        continue;
+      }
+      let knockback = 0;
+      if (ctx.rules && usesHp(ctx.rules)) {
+        const hpDamage = Math.max(1, Math.ceil((target.maxHp || 1) / 12));
+        ctx.combos?.registerHit(b.owner, target, hpDamage);
+        target.takeDamage(hpDamage);
+      } else {
+        ctx.combos?.registerHit(b.owner, target, percent);
+        // launch away from the center, at least 30 degrees upwards; mirrored like melee
+        const up = Math.atan2(b.y - (r.y + r.h * 0.5), Math.abs(r.x + r.w * 0.5 - b.x));
+        const rad = Math.max(Math.PI / 6, up);
+        target.receiveHit(percent, ex.damage.baseKB * scale, ex.damage.strength, push > 0 ? Math.PI - rad : rad);
+        knockback = target.lastKnockback;
+      }
+      if (ex.status) target.applyStatus(ex.status);
+      target.applyHitstop(hitstopFrames(percent));
+      target.lastHitBy = b.owner.name;
+      ctx.events.push({ type: "hit", kind: "blast", attacker: b.owner.name, target: target.name, damage: percent, knockback });
+    }
+  }
+}
+
+/**
+ * A hit on a raised shield: only chip damage goes through (as percent; stamina
+ * rules take no chip), the shield loses health and the defender is pushed
+ * back by `pushDir` (+1 = right) unless the shield broke.
+ */
+function blockWithShield(attacker: string, defender: Fighter, damage: number, kind: "melee" | "projectile" | "blast", pushDir: number, ctx: CombatContext) {
+  const chip = (ctx.rules && usesHp(ctx.rules)) ? 0 : chipDamage(damage);
+  defender.damagePercent += chip;
+  const broke = defender.blockHit(damage);
+  if (!broke) defender.x += pushDir * Math.min(24, damage * 1.5);
+  defender.applyHitstop(hitstopFrames(damage));
+  ctx.events.push({ type: "block", kind, attacker, defender: defender.name, chip, broke });
+}
@@ -0,0 +1,76 @@
+// Hitstun and combos. Hitstun (Fighter.stunTimer) scales with the knockback
+// of a hit and shrinks with every further hit in the same combo. A hit that
+// lands while the target is still in hitstun continues the combo (a true
+// combo: the target could not have escaped); otherwise a new combo starts.
+
+import type { Fighter } from "./fighter";
+
+// seconds of hitstun per point of knockback, cap, and the per-hit decay
+const HITSTUN_PER_KB = 0.0015;
+const MAX_HITSTUN = 1.2;
+const COMBO_HITSTUN_DECAY = 0.85;
+// how long a finished combo stays on the HUD (seconds)
+const COMBO_DISPLAY_TIME = 1.5;
+
+/**
+ * Hitstun in seconds for a hit with `knockback`, where `comboHits` is the
+ * number of hits the target has taken in the current combo (1 = first hit).
+ */
+export function hitstunSeconds(knockback: number, comboHits = 1): number {
+  const decay = Math.pow(COMBO_HITSTUN_DECAY, Math.max(0, comboHits - 1));
+  return Math.min(MAX_HITSTUN, Math.max(0, knockback) * HITSTUN_PER_KB * decay);
+}
+
+export interface Combo {
+  attacker: string;
+  target: string;
+  hits: number;
+  /** total percent (or HP in stamina mode) dealt by the combo */
+  damage: number;
+  /** false once the target left hitstun; the combo then only stays on the HUD */
+  active: boolean;
+  // seconds left on the HUD after the combo ended
+  displayTimer: number;
+}
+
+/** Tracks the current combo of every attacker. Lives in the Simulation. */
+export class ComboTracker {
+  private readonly combos = new Map<string, Combo>();
+
+  /**
+   * Register a hit before its damage is applied (the target's hitstun from
+   * the previous hit decides whether the combo continues).
+   */
+  registerHit(attacker: Fighter, target: Fighter, damage: number) {
+    const current = this.combos.get(attacker.name);
+    const continues = !!current && current.active && current.target === target.name && target.stunTimer > 0;
+    if (continues && current) {
+      current.hits++;
+      current.damage += damage;
+      return;
+    }
+    this.combos.set(attacker.name, { attacker: attacker.name, target: target.name, hits: 1, damage, active: true, displayTimer: COMBO_DISPLAY_TIME });
+  }
+
+  /** End combos whose target escaped hitstun and expire old HUD entries. */
+  update(dt: number, fighters: Fighter[]) {
+    for (const [name, combo] of this.combos) {
+      if (combo.active) {
+        const target = fighters.find((f) => f.name === combo.target);
+        if (!target || target.stunTimer <= 0) combo.active = false;
+        continue;
+      }
+      combo.displayTimer -= dt;
+      if (combo.displayTimer <= 0) this.combos.delete(name);
+    }
+  }
+
+  /** Current (or just finished) combo of `attacker`, if any. */
+  comboOf(attacker: string): Combo | null {
+    return this.combos.get(attacker) || null;
+  }
+
+  clear() {
+    this.combos.clear();
+  }
+}
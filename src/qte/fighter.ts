@@ -3,6 +3,19 @@ import {
   P1_PROJECTILE_SRC,
   P2_PROJECTILE_SRC,
 } from "./assetRegistry";
+import { getFrameData, getCharacterFrameData, boxToWorld, DEFAULT_HITBOX, type FrameData, type HitboxDef } from "./frameData";
+import { hitstunSeconds } from "./combo";
+import { GRAB_RANGE, GRAB_ACTIVE_TIME, GRAB_WHIFF_TIME, GRAB_HOLD_TIME, GRAB_HOLD_OFFSET, throwDirection, type ThrowDirection } from "./grab";
+import { StatusEffects, type StatusEffectDef } from "./statusEffects";
+import { TRANSFORM_DURATION, TRANSFORM_COOLDOWN, TRANSFORM_ANIM_TIME, type FighterForm } from "./transform";
+import { MAX_METER } from "./superMeter";
+import { getFlyCapacity, FLY_REGEN_RATE, FLY_MIN_START } from "./flight";
+import { getMovement, SHORT_HOP_TIME, WALL_JUMP_LOCK, AIR_DODGE_SPEED, AIR_DODGE_TIME, AIR_DODGE_INVULNERABLE, DASH_TIME, type MovementDef } from "./movement";
+import { InputBuffer, DASH_COMMAND } from "./inputBuffer";
+import { LEDGE_INVINCIBLE_TIME, LEDGE_MAX_HANG, LEDGE_REGRAB_DELAY, LEDGE_ACTION_DELAY, LEDGE_GETUP_DISTANCE, LEDGE_ROLL_DISTANCE, LEDGE_ROLL_TIME, LEDGE_HAND_HEIGHT, LEDGE_HANG_OFFSET, ledgeAction, type Ledge } from "./ledge";
+import { MAX_SHIELD, SHIELD_DRAIN, SHIELD_REGEN, SHIELD_BREAK_STUN, SHIELD_AFTER_BREAK, shieldStunSeconds } from "./shield";
+import { getLaunchPhysics, applyDI, weightFactor, LAUNCH_REFERENCE_KB, type LaunchPhysics, type DirectionInput } from "./launchPhysics";
+import { getMoveSet, getProjectileType, DEFAULT_PROJECTILE_DAMAGE, type MoveSet, type MoveName, type ProjectileSpawn, type ProjectileDamage, type ProjectileType, type ExplosionDef } from "./moves";
 
 export interface Rect {
   x: number;
@@ -11,6 +24,9 @@ export interface Rect {
   h: number;
 }
 
+/** A hitbox resolved to world space for the current frame. */
+export type ActiveHitbox = HitboxDef;
+
 export interface FighterOptions {
   x: number;
   y: number;
@@ -18,13 +34,28 @@ export interface FighterOptions {
   keys: Record<string, string>; // keycodes mapping
   name: string;
   characterId?: string;
+  // team/faction id; fighters on the same team don't hit each other (defaults to name = free-for-all)
+  team?: string;
   spriteConfig: { frameW: number; frameH: number; animations: any };
-  ctx: CanvasRenderingContext2D;
+  // null for headless simulations (draw() becomes a no-op)
+  ctx: CanvasRenderingContext2D | null;
   canvasWidth: number;
   canvasHeight: number;
   muzzleOffset?: { x: number; y: number };
 }
 
+// Animator for a sprite config (the Image is unavailable when running headless under Node)
+function createAnimator(spriteConfig: FighterOptions["spriteConfig"]): SpriteAnimator {
+  let img: HTMLImageElement | null = null;
+  if (typeof Image !== "undefined") {
+    img = new Image();
+    img.src = spriteConfig.animations.idle.src;
+  }
+  const anim = new SpriteAnimator(img, spriteConfig.frameW, spriteConfig.frameH, spriteConfig.animations);
+  anim.setState("idle");
+  return anim;
+}
+
 export class Projectile {
   x: number;
   y: number;
@@ -40,6 +71,23 @@ export class Projectile {
   // Whether this projectile should apply knockback on hit. Some ranged
   // attacks should only increase percent damage without knockback.
   applyKnockbackOnHit = true;
+  // percent/knockback applied on hit (from the move that fired it)
+  damage: ProjectileDamage = DEFAULT_PROJECTILE_DAMAGE;
+  // status effect applied to the fighter it hits (from the move that fired it)
+  status: StatusEffectDef | null = null;
+  // movement and hit behaviour (see moves/projectiles.ts)
+  type: ProjectileType = getProjectileType("linear");
+  // horizontal speed at launch (boomerangs swing between +launchVx and -launchVx)
+  private launchVx: number;
+  // line a sine-wave shot oscillates around
+  private baseY: number;
+  // age at which each target was last hit (piercing / multi-hit shots)
+  private lastHits = new Map<Fighter, number>();
+  // position before the last update (terrain collision sweeps from here)
+  prevX: number;
+  prevY: number;
+  // terrain ricochets so far
+  bounces = 0;
 
   // initialVy and gravity are optional and enable a parabolic trajectory
   constructor(
@@ -58,6 +106,10 @@ export class Projectile {
     this.x = x;
     this.y = y;
     this.vx = vx;
+    this.launchVx = vx;
+    this.baseY = y;
+    this.prevX = x;
+    this.prevY = y;
     // Allow initialVy override to create an arcing projectile
     this.vy = initialVy !== 0 ? initialVy : vy;
     // gravity applied each update (px/s^2). 0 = no gravity (linear motion)
@@ -94,15 +146,32 @@ export class Projectile {
     // projectile initialization (silent)
   }
 
-  update(dt: number) {
+  // `fighters` are the homing candidates (the nearest enemy of the owner is chased)
+  update(dt: number, fighters: Fighter[] = []) {
     this.age += dt;
+    this.prevX = this.x;
+    this.prevY = this.y;
     // Apply gravity if present (positive gravity pulls downwards)
     const g = (this as any).gravity || 0;
     if (g !== 0) this.vy += g * dt;
+    const t = this.type;
+    if (t.motion === "homing") {
+      this.steerTowards(this.nearestEnemy(fighters), (t.turnRate || 0) * dt);
+    } else if (t.motion === "boomerang") {
+      // out at full speed, turns around and is back where it started after returnTime
+      const T = t.returnTime || this.lifespan;
+      this.vx = this.launchVx * Math.cos(Math.PI * Math.min(1, this.age / T));
+    }
     this.x += this.vx * dt;
-    this.y += this.vy * dt;
+    if (t.motion === "sine") {
+      this.baseY += this.vy * dt;
+      this.y = this.baseY + (t.amplitude || 0) * Math.sin(2 * Math.PI * (t.frequency || 0) * this.age);
+    } else {
+      this.y += this.vy * dt;
+    }
     this.anim.update(dt);
-    if (this.age >= this.lifespan) this.alive = false;
+    // explosive shots stay alive so the combat pass can detonate them
+    if (this.age >= this.lifespan && !this.type.explosion) this.alive = false;
   }
   draw(ctx: CanvasRenderingContext2D) {
     ctx.save();
@@ -119,6 +188,71 @@ export class Projectile {
   rect(): Rect {
     return { x: this.x, y: this.y, w: this.displayW, h: this.displayH };
   }
+  // Send the shot back at its shooter: `newOwner` takes it over, the velocity
+  // is inverted and scaled by `speedup`, and its lifespan starts over.
+  reflect(newOwner: Fighter, speedup: number) {
+    this.owner = newOwner;
+    this.vx = -this.vx * speedup;
+    this.vy = -this.vy * speedup;
+    this.launchVx = -this.launchVx * speedup;
+    this.age = 0;
+    this.lastHits.clear();
+  }
+
+  // Ricochet off a wall ("x") or a floor/ceiling ("y"), keeping `restitution` of the speed
+  bounce(axis: "x" | "y", restitution: number) {
+    this.bounces++;
+    if (axis === "x") {
+      this.vx = -this.vx * restitution;
+      this.launchVx = -this.launchVx * restitution;
+      this.vy *= restitution;
+    } else {
+      this.vy = -this.vy * restitution;
+      this.vx *= restitution;
+      this.launchVx *= restitution;
+    }
+  }
+
+  /** Whether the shot may hit `target` now (piercing and multi-hit shots remember their targets). */
+  canHitTarget(target: Fighter): boolean {
+    const last = this.lastHits.get(target);
+    if (last === undefined) return true;
+    return this.type.hit === "multi" && this.age - last >= (this.type.hitInterval ?? 0);
+  }
+
+  registerHit(target: Fighter) {
+    this.lastHits.set(target, this.age);
+  }
+
+  private nearestEnemy(fighters: Fighter[]): Fighter | null {
+    let best: Fighter | null = null;
+    let bestDist = Infinity;
+    const cx = this.x + this.displayW * 0.5;
+    const cy = this.y + this.displayH * 0.5;
+    for (const f of fighters) {
+      if (f === this.owner || f.team === this.owner.team || f.state === "defeat") continue;
+      const d = Math.hypot(f.x + f.w * 0.5 - cx, f.y + f.h * 0.5 - cy);
+      if (d < bestDist) {
+        best = f;
+        bestDist = d;
+      }
+    }
+    return best;
+  }
+
+  // Rotate the velocity towards `target` by at most `maxTurn` radians, keeping the speed
+  private steerTowards(target: Fighter | null, maxTurn: number) {
+    if (!target) return;
+    const dx = target.x + target.w * 0.5 - (this.x + this.displayW * 0.5);
+    const dy = target.y + target.h * 0.5 - (this.y + this.displayH * 0.5);
+    const speed = Math.hypot(this.vx, this.vy);
+    const heading = Math.atan2(this.vy, this.vx);
+    let diff = Math.atan2(dy, dx) - heading;
+    diff = Math.atan2(Math.sin(diff), Math.cos(diff)); // wrap to [-PI, PI]
+    const angle = heading + Math.max(-maxTurn, Math.min(maxTurn, diff));
+    this.vx = Math.cos(angle) * speed;
+    this.vy = Math.sin(angle) * speed;
+  }
 }
 
 export class Blast {
@@ -129,6 +263,11 @@ export class Blast {
   anim: SpriteAnimator;
   w = 256;
   h = 256;
+  // area damage (explosions); null = purely visual
+  owner: Fighter | null = null;
+  explosion: ExplosionDef | null = null;
+  // combatants already hit by this explosion (each is hit once)
+  hit = new Set<Fighter>();
   constructor(x: number, y: number, imgSrc: string, framesHint: number, atlasImage: HTMLImageElement | null = null, atlasRects: Rect[] | null = null) {
     this.x = x;
     this.y = y;
@@ -170,13 +309,19 @@ export class Blast {
     this.anim.update(dt);
     if (this.timer <= 0) this.alive = false;
   }
+  // Make this blast an explosion of `owner`; the sprite grows to cover the radius
+  arm(owner: Fighter | null, explosion: ExplosionDef) {
+    this.owner = owner;
+    this.explosion = explosion;
+    this.w = this.h = Math.max(256, explosion.radius * 2);
+  }
   draw(ctx: CanvasRenderingContext2D) {
     this.anim.draw(ctx, this.x - this.w * 0.5, this.y - this.h * 0.5, this.w, this.h);
   }
 }
 
 export class Fighter {
-  private ctx: CanvasRenderingContext2D;
+  private ctx: CanvasRenderingContext2D | null;
   private canvasW: number;
   private canvasH: number;
 
@@ -197,20 +342,44 @@ export class Fighter {
 
   state: string = "idle";
   name: string;
+  team: string;
   color: string;
   keys: Record<string, string>;
   anim: SpriteAnimator;
+  // declarative move-set for this character (see moves/)
+  moves: MoveSet;
 
   // action flags
   attacking1 = false;
   attacking2 = false;
   parrying = false;
+  shielding = false;
   ranging1 = false;
   ranging2 = false;
   attack1Launched = false;
   attack2Launched = false;
-  // whether Laurin's attack1 auto-fired its special projectile3 this animation
-  laurinAttack1ProjectileLaunched = false;
+  // fighters already hit by the current melee attack (each is hit once per attack)
+  meleeVictims: Fighter[] = [];
+  // grab (see grab.ts): the fighter held by this one / the one holding this one
+  holding: Fighter | null = null;
+  heldBy: Fighter | null = null;
+  // throw picked while holding; carried out by the combat pass
+  pendingThrow: ThrowDirection | null = null;
+  // ledge this fighter hangs on (see ledge.ts)
+  ledge: Ledge | null = null;
+  // the form Transform switches to (see transform.ts); swapped with the current one on transform and revert
+  altForm: FighterForm | null = null;
+  transformed = false;
+  // super meter (see superMeter.ts)
+  meter = 0;
+  // set when a super starts; the simulation consumes it for the cinematic freeze
+  superStarted = false;
+  // name of the last fighter that hit this one (KO credit); cleared on respawn
+  lastHitBy: string | null = null;
+  // knockback magnitude of the last receiveHit (drives screen shake)
+  lastKnockback = 0;
+  // melee moves that already fired their projectile this animation (keyed by move name)
+  moveProjectileLaunched: Partial<Record<MoveName, boolean>> = {};
   ranged1Launched = false;
   ranged2Launched = false;
   ranged2Hold = false;
@@ -218,9 +387,17 @@ export class Fighter {
   flying = false; // true while Circle (dodge) is held to fly
   flyHold = false; // whether we're looping the last frames of fly
   flySpeed = 300; // px/s movement speed while flying
+  // seconds of flight on a full gauge (see flight.ts)
+  flyCapacity: number;
+  flyStamina: number;
+  // out of flight stamina: falling with no actions until landing or a ledge grab
+  helpless = false;
   // internal input/feature flags
   _prevAttack2 = false;
-  _grannyR2Active = false;
+  _prevSuperCombo = false;
+  _prevUp = false;
+  _prevDodge = false;
+  _stanceActive = false;
   _playReverse: any = null;
   // whether this fighter should consider the bottom "ground" (canvasH-40) as a solid surface
   allowGroundCollision = true;
@@ -232,6 +409,8 @@ export class Fighter {
   private _lastLoggedFlyFrame = -1;
   private _flyLogAcc = 0;
   private _frozen = false;
+  // seconds the jump key has been held since takeoff (null when not jumping)
+  private _jumpHoldTime: number | null = null;
 
   // timers
   attack1Timer = 0;
@@ -239,9 +418,48 @@ export class Fighter {
   ranged1Timer = 0;
   ranged2Timer = 0;
   parryTimer = 0;
-  parryFreezeTimer = 0;
+  // hitstop: simulation ticks this fighter stays frozen after an impact
+  hitstop = 0;
   parryCooldown = 0; // seconds until parry can be used again
-  stunTimer = 0;
+  stunTimer = 0; // hitstun: no actions until it runs out (see combo.ts)
+  // shield (see shield.ts): health, stun after blocking, stun after a break
+  shieldHealth = MAX_SHIELD;
+  shieldStun = 0;
+  shieldBreakTimer = 0;
+  grabTimer = 0; // seconds left of the current grab (active box + whiff recovery)
+  // burn / freeze / slow / poison (see statusEffects.ts)
+  readonly status = new StatusEffects();
+  burnPending = 0; // burn percent not yet dealt (applyBurn turns it into damage under the match rules)
+  hpRegen = 0; // seconds since HP was last lost (stamina regeneration, see regenerateHp)
+  holdTimer = 0; // seconds left before a held opponent is thrown forward
+  ledgeTimer = 0; // seconds spent hanging on the current ledge
+  ledgeInvincibility = 0; // seconds of ledge / roll invincibility left
+  ledgeRegrabTimer = 0; // seconds until a ledge can be grabbed again
+  transformTimer = 0; // seconds left in the alternate form
+  transformCooldown = 0; // seconds until the next transform
+  transformAnimTimer = 0; // transform animation: no actions until it ends
+  superTimer = 0; // seconds left of the current super
+  specialTimer = 0; // seconds left of the current command special
+  dashTimer = 0; // seconds left of the current dash
+  // frame history of this fighter's keys: buffered presses and motion commands (see inputBuffer.ts)
+  inputBuffer: InputBuffer;
+  superInvulnerability = 0; // seconds of super invulnerability left
+  // hits taken in the current combo (reset when hit outside hitstun)
+  comboHitsTaken = 0;
+  // weight and DI limits (see launchPhysics.ts)
+  physics: LaunchPhysics;
+  // jumps, wall jump, fast fall and dodge mode (see movement.ts)
+  movement: MovementDef;
+  airJumpsLeft = 0;
+  fastFalling = false;
+  // wall the fighter clings to: 1 = on its right, -1 = on its left, 0 = none (set by the simulation)
+  wallCling = 0;
+  wallJumpTimer = 0; // seconds left of the wall jump push
+  airDodgeTimer = 0; // seconds left of the current air dodge
+  airDodgeUsed = false; // one air dodge per airtime
+  dodgeInvulnerability = 0;
+  // direction held on the last update, used for DI when launched
+  heldDirection: DirectionInput = { x: 0, y: 0 };
   hurtTimer = 0; // hurt animation duration
   parryConsumed = false;
   parryDurationDefault = 0.25; // twice as fast as before
@@ -261,46 +479,138 @@ export class Fighter {
     this.y = opts.y;
     this.color = opts.color;
     this.keys = opts.keys;
+    this.inputBuffer = new InputBuffer(opts.keys);
     this.name = opts.name;
+    this.team = opts.team ?? opts.name;
     // optional character id from registry (useful for per-character behavior)
     (this as any).characterId = (opts as any).characterId || null;
+    this.moves = getMoveSet((this as any).characterId);
+    this.physics = getLaunchPhysics((this as any).characterId);
+    this.movement = getMovement((this as any).characterId);
+    this.flyCapacity = getFlyCapacity((this as any).characterId);
+    this.flyStamina = this.flyCapacity;
     this.ctx = opts.ctx;
     this.canvasW = opts.canvasWidth;
     this.canvasH = opts.canvasHeight;
     this.muzzleOffset = opts.muzzleOffset ?? { x: 36, y: -48 };
 
-    const img = new Image();
-    img.src = opts.spriteConfig.animations.idle.src;
-    this.anim = new SpriteAnimator(img, opts.spriteConfig.frameW, opts.spriteConfig.frameH, opts.spriteConfig.animations);
-    this.anim.setState("idle");
+    this.anim = createAnimator(opts.spriteConfig);
     this.maxHp = this.hp;
   }
 
-  rect(): Rect {
+  // Frame data lookup for the current animation frame (undefined = no table for this animation)
+  private currentFrameData(): FrameData | null | undefined {
+    // the animator can be showing a helper animation (e.g. Granny's R2 idle), so only
+    // trust its frame index while it plays the animation matching our state
+    const frame = this.anim.state === this.state ? this.anim.frame : 0;
+    return getFrameData((this as any).characterId, this.state, frame);
+  }
+
+  hurtboxes(): Rect[] {
+    const fd = this.currentFrameData();
+    if (fd && fd.hurtboxes && fd.hurtboxes.length > 0) {
+      return fd.hurtboxes.map((b) => boxToWorld(b, this.x, this.y, this.w, this.facing));
+    }
+    const cfd = getCharacterFrameData((this as any).characterId);
+    if (cfd && cfd.hurtbox) return [boxToWorld(cfd.hurtbox, this.x, this.y, this.w, this.facing)];
     // return a centered hurtbox that is 50% of the sprite's width and height
     const hurtW = Math.max(1, Math.floor(this.w * 0.5));
     const hurtH = Math.max(1, Math.floor(this.h * 0.5));
     const hurtX = this.x + Math.floor((this.w - hurtW) * 0.5);
     const hurtY = this.y + Math.floor((this.h - hurtH) * 0.5);
-    return { x: hurtX, y: hurtY, w: hurtW, h: hurtH };
+    return [{ x: hurtX, y: hurtY, w: hurtW, h: hurtH }];
   }
 
-  hitbox(): Rect | null {
-    if (this.state === "attack1" || this.state === "attack2") {
+  // bounding box of the current hurtboxes (used for projectile hits and AI distance checks)
+  rect(): Rect {
+    const boxes = this.hurtboxes();
+    if (boxes.length === 1) return boxes[0];
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (const b of boxes) {
+      x0 = Math.min(x0, b.x);
+      y0 = Math.min(y0, b.y);
+      x1 = Math.max(x1, b.x + b.w);
+      y1 = Math.max(y1, b.y + b.h);
+    }
+    return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+  }
+
+  /** Hitboxes active on the current frame, in world space, with their hit properties. */
+  activeHitboxes(): ActiveHitbox[] {
+    if (this.state !== "attack1" && this.state !== "attack2") return [];
+    const fd = this.currentFrameData();
+    if (fd === undefined) {
+      // no frame data for this move: legacy box in front of the fighter for the whole attack
       const aw = 60,
         ah = 40;
       const ax = this.facing > 0 ? this.x + this.w - 10 : this.x - (aw - 10);
       const ay = this.y + this.h * 0.55 - ah * 0.5;
-      return { x: ax, y: ay, w: aw, h: ah };
+      return [{ ...DEFAULT_HITBOX, x: ax, y: ay, w: aw, h: ah }];
     }
-    return null;
+    if (!fd || !fd.hitboxes) return [];
+    return fd.hitboxes.map((hb) => ({ ...hb, ...boxToWorld(hb, this.x, this.y, this.w, this.facing) }));
+  }
+
+  hitbox(): Rect | null {
+    const boxes = this.activeHitboxes();
+    if (boxes.length === 0) return null;
+    const { x, y, w, h } = boxes[0];
+    return { x, y, w, h };
   }
 
   update(dt: number, input: Record<string, boolean>, projectiles: Projectile[], blasts: Blast[] = []) {
+    this.readHeldDirection(input);
+    // presses made while the fighter couldn't act are replayed until an action uses them
+    this.inputBuffer.record(input);
+    input = this.inputBuffer.applyBuffered(input);
+    // held by a grab: no movement or actions until thrown or released
+    if (this.heldBy) {
+      this.vx = 0;
+      this.vy = 0;
+      this.anim.update(dt);
+      return;
+    }
+    this.burnPending += this.status.update(dt);
+    // hitstun countdown; while it runs the fighter can't start any action
+    if (this.stunTimer > 0) this.stunTimer = Math.max(0, this.stunTimer - dt);
+    const inHitstun = this.stunTimer > 0;
+    if (this.ledgeInvincibility > 0) this.ledgeInvincibility = Math.max(0, this.ledgeInvincibility - dt);
+    if (this.ledgeRegrabTimer > 0) this.ledgeRegrabTimer = Math.max(0, this.ledgeRegrabTimer - dt);
+    if (this.superInvulnerability > 0) this.superInvulnerability = Math.max(0, this.superInvulnerability - dt);
+    if (this.dodgeInvulnerability > 0) this.dodgeInvulnerability = Math.max(0, this.dodgeInvulnerability - dt);
+    if (this.wallJumpTimer > 0) this.wallJumpTimer = Math.max(0, this.wallJumpTimer - dt);
+    // hanging on a ledge: no movement until the fighter gets up, rolls, attacks or lets go
+    if (this.ledge && this.updateLedge(dt, input)) return;
+
     // Movement & gravity
-    // Flying (Circle) overrides gravity and allows free movement while held.
+    const upPressed = !!input[this.keys.up] && !this._prevUp;
+    this._prevUp = !!input[this.keys.up];
     const dodgeHeld = !!input[this.keys.dodge];
-    if (dodgeHeld && !this.flying) {
+    const dodgePressed = dodgeHeld && !this._prevDodge;
+    this._prevDodge = dodgeHeld;
+    // standing refills air jumps, the air dodge and flight stamina
+    if (this.onGround) {
+      this.airJumpsLeft = this.movement.airJumps;
+      this.airDodgeUsed = false;
+      this.fastFalling = false;
+      this.helpless = false;
+      this.flyStamina = Math.min(this.flyCapacity, this.flyStamina + FLY_REGEN_RATE * dt);
+    }
+    // Air dodge: a short dash in the held direction (or in place) with invulnerability
+    if (this.movement.dodge === "airDodge" && dodgePressed && !this.onGround && !this.airDodgeUsed && this.airDodgeTimer <= 0 &&
+      !this.helpless && !inHitstun && !this.grabbing && !this.inSuper && this.state !== "defeat") {
+      const len = Math.hypot(this.heldDirection.x, this.heldDirection.y);
+      this.vx = len > 0 ? (this.heldDirection.x / len) * AIR_DODGE_SPEED : 0;
+      this.vy = len > 0 ? (-this.heldDirection.y / len) * AIR_DODGE_SPEED : 0;
+      this.airDodgeTimer = AIR_DODGE_TIME;
+      this.airDodgeUsed = true;
+      this.dodgeInvulnerability = AIR_DODGE_INVULNERABLE;
+      this.fastFalling = false;
+      this.attacking1 = this.attacking2 = this.ranging1 = this.ranging2 = false;
+    }
+    // Flying (Circle) overrides gravity and allows free movement while held.
+    if (this.movement.dodge === "fly" && dodgeHeld && !this.flying && !inHitstun && !this.grabbing && !this.helpless &&
+      this.flyStamina >= FLY_MIN_START) {
       // start flying
       this.flying = true;
       this.state = 'fly';
@@ -344,11 +654,12 @@ export class Fighter {
       try { this.anim.update(dt); } catch (e) {}
       // Allow directional control in x and y while flying
       let vx = 0, vy = 0;
-      if (input[this.keys.left]) { vx = -this.flySpeed; this.facing = -1; }
-      else if (input[this.keys.right]) { vx = this.flySpeed; this.facing = 1; }
+      const flySpeed = this.flySpeed * this.status.speedMultiplier();
+      if (input[this.keys.left]) { vx = -flySpeed; this.facing = -1; }
+      else if (input[this.keys.right]) { vx = flySpeed; this.facing = 1; }
       else vx = 0;
-      if (input[this.keys.up]) vy = -this.flySpeed;
-      else if (input[this.keys.down]) vy = this.flySpeed;
+      if (input[this.keys.up]) vy = -flySpeed;
+      else if (input[this.keys.down]) vy = flySpeed;
       else vy = 0;
 
       this.vx = vx;
@@ -406,45 +717,93 @@ export class Fighter {
         }
       } catch (e) {}
 
-      // release flying when dodge released
-      if (!dodgeHeld) {
+      // release flying when dodge released; an empty gauge forces a helpless fall
+      if (dodgeHeld) this.flyStamina = Math.max(0, this.flyStamina - dt);
+      if (!dodgeHeld || this.flyStamina <= 0) {
         this.flying = false;
         this.flyHold = false;
+        if (this.flyStamina <= 0) {
+          this.helpless = true;
+          this.vx = 0;
+          this.vy = 0;
+          console.log(`[qte] ${this.name} out of flight stamina`);
+        }
         // restore sensible state
         if (!this.onGround) this.setState('jump');
         else if (Math.abs(this.vx) > 1) this.setState('walk');
         else this.setState('idle');
       }
+    } else if (this.airDodgeTimer > 0) {
+      // air dodge: no gravity or steering until it ends, then drop from a standstill
+      this.airDodgeTimer = Math.max(0, this.airDodgeTimer - dt);
+      this.x += this.vx * dt;
+      this.y += this.vy * dt;
+      if (this.airDodgeTimer <= 0) {
+        this.vx = 0;
+        this.vy = 0;
+      }
     } else {
+      // double tap forward on the ground: dash
+      if (this.onGround && this.dashTimer <= 0 && !inHitstun && !this.shielding && !this.grabbing && !this.inSuper && !this.inSpecial &&
+        this.inputBuffer.matchMotion(DASH_COMMAND, this.facing)) {
+        this.dashTimer = DASH_TIME;
+      }
       // If stunned, ignore player directional input so knockback impulses persist.
-      if (this.stunTimer <= 0 && !this.launchedFromHit) {
+      if (this.shielding || this.grabbing || this.inSuper || this.inSpecial) {
+        this.vx = 0;
+        this.dashTimer = 0;
+      } else if (this.dashTimer > 0 && !inHitstun && !this.launchedFromHit) {
+        this.dashTimer = Math.max(0, this.dashTimer - dt);
+        this.vx = this.facing * this.movement.dashSpeed * this.status.speedMultiplier();
+      } else if (this.stunTimer <= 0 && !this.launchedFromHit && this.wallJumpTimer <= 0) {
         if (input[this.keys.left]) {
-          this.vx = -150;
+          this.vx = -150 * this.status.speedMultiplier();
           this.facing = -1;
         } else if (input[this.keys.right]) {
-          this.vx = 150;
+          this.vx = 150 * this.status.speedMultiplier();
           this.facing = 1;
         } else this.vx = 0;
       }
-      if (this.onGround && input[this.keys.up]) {
+      // Jump hold time is measured in simulation time (not wall clock) so
+      // short-hop detection is reproducible under the fixed-step loop.
+      if (input[this.keys.up] && this._jumpHoldTime !== null) this._jumpHoldTime += dt;
+      const canJump = !inHitstun && !this.grabbing && !this.inSuper && !this.launchedFromHit && !this.helpless;
+      if (this.onGround && input[this.keys.up] && !inHitstun && !this.grabbing) {
         // Track jump input timing for short tap detection
-        if (!(this as any)._jumpStartTime) {
-          (this as any)._jumpStartTime = performance.now();
-        }
-        this.vy = -350; // reduced jump impulse (50% of original -700)
+        if (this._jumpHoldTime === null) this._jumpHoldTime = 0;
+        this.vy = this.movement.jumpVy;
         this.onGround = false;
+      } else if (!this.onGround && upPressed && canJump && this.wallCling !== 0 && this.movement.wallJump) {
+        // wall jump: pushed away from the wall for a moment
+        this.vx = -this.wallCling * this.movement.wallJumpVx;
+        this.vy = this.movement.wallJumpVy;
+        this.facing = -this.wallCling;
+        this.wallCling = 0;
+        this.wallJumpTimer = WALL_JUMP_LOCK;
+        this.fastFalling = false;
+      } else if (!this.onGround && upPressed && canJump && this.airJumpsLeft > 0) {
+        this.vy = this.movement.airJumpVy;
+        this.airJumpsLeft--;
+        this.fastFalling = false;
       }
 
       // Handle jump release for short tap detection
-      if (!input[this.keys.up] && (this as any)._jumpStartTime) {
-        const jumpDuration = performance.now() - (this as any)._jumpStartTime;
-        // If jump was held for less than 100ms, reduce jump height to 25%
-        if (jumpDuration < 100 && this.vy < 0) {
-          this.vy = -175; // 25% of original jump height
+      if (!input[this.keys.up] && this._jumpHoldTime !== null) {
+        // a tap shorter than SHORT_HOP_TIME becomes a short hop
+        if (this._jumpHoldTime < SHORT_HOP_TIME && this.vy < 0) {
+          this.vy = this.movement.shortHopVy;
         }
-        (this as any)._jumpStartTime = null;
+        this._jumpHoldTime = null;
       }
       this.vy += 900 * dt;
+      // fast fall: holding down in the air once past the peak of the jump
+      if (!this.onGround && this.vy >= 0 && input[this.keys.down] && !inHitstun && !this.launchedFromHit) this.fastFalling = true;
+      if (this.fastFalling) this.vy = Math.max(this.vy, this.movement.fastFallVy);
+      // clinging to a wall slows the fall and stops pushing into it
+      if (this.wallCling !== 0 && !this.onGround) {
+        if (this.vy > this.movement.wallSlideSpeed && !this.fastFalling) this.vy = this.movement.wallSlideSpeed;
+        if (Math.sign(this.vx) === this.wallCling) this.vx = 0;
+      }
       this.x += this.vx * dt;
       this.y += this.vy * dt;
     }
@@ -477,11 +836,23 @@ export class Fighter {
       this.onGround = true;
     }
 
+    this.updateTransform(dt, !!(this.keys.transform && input[this.keys.transform]), inHitstun);
+
     // Block all actions except movement while flying
     if (!this.flying) {
+    // grabbing first: a grab out of shield drops the shield
+    this.updateGrab(dt, !!(this.keys.grab && input[this.keys.grab]), inHitstun);
+    this.updateShield(dt, !!(this.keys.shield && input[this.keys.shield]), inHitstun);
+    this.updateSuper(dt, !!input[this.keys.ranged1] && !!input[this.keys.ranged2], inHitstun);
+    this.updateSpecial(dt, inHitstun);
+    // no attacks while stunned, behind the shield, grabbing, transforming, air dodging, helpless or during a super/special
+    const canAct = !inHitstun && !this.shielding && !this.grabbing && !this.transforming && !this.inSuper && !this.inSpecial &&
+      this.airDodgeTimer <= 0 && !this.helpless;
+
     // Parry input (Triangle) - only start if not already parrying
-    if (input[this.keys.parry] && !this.parrying && !this.attacking1 && !this.attacking2 && !this.ranging1 && !this.ranging2 && !this.hurt && this.parryCooldown <= 0) {
+    if (input[this.keys.parry] && !this.parrying && !this.attacking1 && !this.attacking2 && !this.ranging1 && !this.ranging2 && !this.hurt && canAct && this.parryCooldown <= 0) {
       this.parrying = true;
+      this.inputBuffer.consume("parry");
       this.setState("parry"); // Use private setState method to keep states in sync
       this.parryTimer = this.parryDurationDefault;
       this.parryConsumed = false;
@@ -503,26 +874,17 @@ export class Fighter {
     if (this.parryCooldown > 0) this.parryCooldown = Math.max(0, this.parryCooldown - dt);
 
     // Attack1 input (R1)
-    if (input[this.keys.attack1] && !this.attacking1 && !this.parrying) {
+    if (input[this.keys.attack1] && !this.attacking1 && !this.parrying && canAct) {
+      const move = this.moves.attack1;
       this.attacking1 = true;
+      this.inputBuffer.consume("attack1");
       this.state = "attack1";
-      this.anim.setState("attack1");
-      this.attack1Timer = 0.35;
+      this.anim.setState(move.animation);
+      this.attack1Timer = move.duration;
       this.attack1Launched = false;
-      // reset Laurin-specific auto-projectile flag when (re)starting attack1
-      try {
-        const cid = (this as any).characterId;
-        if (cid && String(cid).toLowerCase() === 'laurin') {
-          this.laurinAttack1ProjectileLaunched = false;
-          // Log animation meta to help debug why final-frame spawn may not trigger
-          try {
-            const a = this.anim.animations['attack1'];
-            const total = (a && a.rects && a.rects.length) ? a.rects.length : (a && a.frames) || 0;
-            const fps = (a && a.fps) || 12;
-            console.debug('[qte][laurin] attack1 started - reset projectile flag', { totalFrames: total, fps });
-          } catch (ee) {}
-        }
-      } catch (e) {}
+      this.meleeVictims = [];
+      // (re)starting attack1 re-arms its projectile
+      this.moveProjectileLaunched.attack1 = false;
     }
     if (this.attacking1) {
       this.attack1Timer -= dt;
@@ -530,109 +892,43 @@ export class Fighter {
     }
 
     // Attack2 input (R2)
-    if (input[this.keys.attack2] && !this.attacking2 && !this.parrying) {
-      // Special per-character behavior for attack2 (R2)
-      const cid = (this as any).characterId;
-      if (cid === 'granny') {
-        // When Granny triggers attack2: set idle to last frame of attack2,
-        // add a custom walking animation 'walking' (from atlas) and
-        // create 'attack1alt' using frames at r5c6..r6c3 (grid cells)
-        this.attacking2 = true;
-        this.state = 'attack2';
-        this.anim.setState('attack2');
-        this.attack2Timer = 0.35;
-        this.attack2Launched = false;
-        // enter Granny special R2 mode
-        (this as any)._grannyR2Active = true;
-
-        // Ensure attack1alt exists by building from atlas rects if present
-        try {
-          const a2 = this.anim.animations['attack2'];
-          if (a2 && a2.rects && a2.rects.length > 0) {
-            // 'attack1alt' frames located at r5c6 r5c7 r6c0 r6c1 r6c2 r6c3
-            const gridRects = a2.rects || []; // atlas rects (safe fallback)
-            // compute indices by matching x,y to grid; helper:
-            const pick = (rx: number, ry: number) => gridRects.find((r: any) => r.x === rx && r.y === ry);
-            const cells = [ [1536,1280], [1792,1280], [0,1536], [256,1536], [512,1536], [768,1536] ];
-            const rects = cells.map(([x,y]) => pick(x,y)).filter(Boolean);
-            if (rects.length === cells.length) {
-              this.anim.animations['attack1alt'] = {
-                src: a2.src || '',
-                frames: rects.length,
-                fps: a2.fps || 12,
-                loop: false,
-                frameW: a2.frameW || 256,
-                frameH: a2.frameH || 256,
-                image: a2.image,
-                rects
-              } as any;
-            }
-          }
-        } catch (e) { /* defensive */ }
-
-        // Set idle to last frame of attack2 by creating a one-frame idle from attack2 last rect
-        try {
-          const a2 = this.anim.animations['attack2'];
-          if (a2 && a2.rects && a2.rects.length > 0) {
-            const lastRect = a2.rects[a2.rects.length - 1];
-            this.anim.animations['idle_from_attack2_last'] = {
-              src: a2.src || '',
-              frames: 1,
-              fps: 1,
-              loop: true,
-              frameW: a2.frameW || 256,
-              frameH: a2.frameH || 256,
-              image: a2.image,
-              rects: [ lastRect ]
-            } as any;
-            // Immediately use that idle
-            this.anim.setState('idle_from_attack2_last');
-          }
-        } catch (e) {}
-
-        // Add walking animation named 'walking' if atlas has it (atlas patching will populate it)
-        if (!this.anim.animations['walking'] && this.anim.animations['walk']) {
-          this.anim.animations['walking'] = this.anim.animations['walk'];
-        }
-
-      } else {
-        this.attacking2 = true;
-        this.state = "attack2";
-        this.anim.setState("attack2");
-        this.attack2Timer = 0.35;
-        this.attack2Launched = false;
-      }
+    if (input[this.keys.attack2] && !this.attacking2 && !this.parrying && canAct) {
+      const move = this.moves.attack2;
+      this.attacking2 = true;
+      this.inputBuffer.consume("attack2");
+      this.state = "attack2";
+      this.anim.setState(move.animation);
+      this.attack2Timer = move.duration;
+      this.attack2Launched = false;
+      this.meleeVictims = [];
+      this.moveProjectileLaunched.attack2 = false;
+      if (move.stance) this.enterStance(move.animation, move.stance);
     }
     if (this.attacking2) {
       this.attack2Timer -= dt;
       if (this.attack2Timer <= 0) this.attacking2 = false;
     }
 
-    // If Granny's special R2 state is active and attack2 released again, restore animations and play attack2 reversed
+    // Stance moves (e.g. Granny's R2): once the move ends, leave the stance,
+    // restore default animations and optionally play the move backwards
     try {
-      const cid = (this as any).characterId;
-      if (cid === 'granny') {
-        // detect pressing attack2 again to toggle back
-        // (the input handling in gameLoop will set attacking2 true; here we look for state transition)
-        // When toggled back, restore base animations and enqueue reverse playback of attack2
-        // Implement a simple toggle flag on the instance
-        if ((this as any)._grannyR2Active && !this.attacking2) {
-          // deactivate special mode and restore default animations
-          (this as any)._grannyR2Active = false;
+      const stance = this.moves.attack2.stance;
+      if (stance) {
+        if (this._stanceActive && !this.attacking2) {
+          this._stanceActive = false;
           // Restore normal idle/walk/attack1 if present
           if (this.anim.animations['idle']) this.anim.setState('idle');
-          // Play attack2 in reverse once (simulate by setting frame and decrementing via a small timer)
-          if (this.anim.animations['attack2']) {
-            const a2 = this.anim.animations['attack2'];
-            this.anim.setState('attack2');
+          const a2 = this.anim.animations[this.moves.attack2.animation];
+          if (stance.reverseOnExit && a2) {
+            this.anim.setState(this.moves.attack2.animation);
             this.anim.frame = a2.frames - 1;
             // mark animator to play backwards over next frames by setting a temporary property
-            (this as any)._playReverse = { remaining: a2.frames, fps: a2.fps || 12 };
+            this._playReverse = { remaining: a2.frames, fps: a2.fps || 12 };
           }
         }
         // reverse player animator tick (if active)
-        if ((this as any)._playReverse) {
-          const pr = (this as any)._playReverse;
+        if (this._playReverse) {
+          const pr = this._playReverse;
           if (pr.remaining > 0) {
             // step backwards based on fps
             const stepTime = 1 / pr.fps;
@@ -643,7 +939,7 @@ export class Fighter {
               pr.remaining -= 1;
             }
             if (pr.remaining <= 0) {
-              delete (this as any)._playReverse;
+              this._playReverse = null;
               // restore idle
               if (this.anim.animations['idle']) this.anim.setState('idle');
             }
@@ -653,11 +949,12 @@ export class Fighter {
     } catch (e) {}
 
     // Ranged1 input (L1)
-    if (input[this.keys.ranged1] && !this.ranging1 && !this.parrying) {
+    if (input[this.keys.ranged1] && !this.ranging1 && !this.parrying && canAct) {
       this.ranging1 = true;
+      this.inputBuffer.consume("ranged1");
       this.state = "ranged1";
-      this.anim.setState("ranged1");
-      this.ranged1Timer = 0.4;
+      this.anim.setState(this.moves.ranged1.animation);
+      this.ranged1Timer = this.moves.ranged1.duration;
       this.ranged1Launched = false;
     }
     if (this.ranging1) {
@@ -667,12 +964,12 @@ export class Fighter {
     }
 
     // Ranged2 input (L2) with hold-loop support
-    if (input[this.keys.ranged2] && !this.ranging2 && !this.parrying) {
+    if (input[this.keys.ranged2] && !this.ranging2 && !this.parrying && canAct) {
       this.ranging2 = true;
       this.ranged2Hold = false;
       this.state = "ranged2";
-      this.anim.setState("ranged2");
-      this.ranged2Timer = 0.4; // initial animation window (will not automatically cancel while holding)
+      this.anim.setState(this.moves.ranged2.animation);
+      this.ranged2Timer = this.moves.ranged2.duration; // initial animation window (will not automatically cancel while holding)
       this.ranged2Launched = false;
     }
 
@@ -744,66 +1041,37 @@ export class Fighter {
       }
     }
 
-    // State machine fallbacks (only if not hurt, parrying, defeated, or flying)
-    if (!this.flying && !this.attacking1 && !this.attacking2 && !this.ranging1 && !this.ranging2 && !this.hurt && !this.parrying && this.state !== "defeat") {
+    // State machine fallbacks (only if not hurt, parrying, shielding, transforming, in a super, defeated, or flying)
+    if (!this.flying && !this.attacking1 && !this.attacking2 && !this.ranging1 && !this.ranging2 && !this.hurt && !this.parrying && !this.shielding && !this.transforming && !this.inSuper && !this.inSpecial && this.state !== "defeat") {
       if (!this.onGround) this.setState("jump");
       else if (Math.abs(this.vx) > 1) this.setState("walk");
       else this.setState("idle");
     }
 
-    // animator update
-    this.anim.update(dt);
+    // animator update (a frozen fighter's sprite stands still)
+    if (!this.status.has("freeze")) this.anim.update(dt);
 
-    // Laurin: spawn projectile3 at the LAST frame of attack1 (use animation's total frames)
+    // Melee moves (and supers/specials) that also throw a projectile (e.g. Laurin's attack1 projectile3)
     try {
-      const cid = (this as any).characterId;
-      if (cid && String(cid).toLowerCase() === 'laurin' && this.anim.state === 'attack1' && !this.laurinAttack1ProjectileLaunched) {
-        const a = this.anim.animations['attack1'];
+      for (const name of ["attack1", "attack2", "super", "special"] as const) {
+        const move = this.moves[name];
+        if (!move) continue;
+        const spawn = move.projectile;
+        if (!spawn || this.moveProjectileLaunched[name] || this.anim.state !== move.animation) continue;
+        const a = this.anim.animations[move.animation];
         const total = (a && a.rects && a.rects.length) ? a.rects.length : (a && a.frames) || 0;
-        // spawn when animator reaches frame 4 (5th frame, 0-indexed) of 6-frame attack1
-        if (total > 0 && this.anim.frame >= 4) {
-          this.laurinAttack1ProjectileLaunched = true;
-          console.debug('[qte][laurin] attack1 final frame - spawning projectile3', { frame: this.anim.frame, total });
-
-          const projW = 256, projH = 256;
-          const muzzle = this.muzzleOffset || { x: 36, y: -48 };
-          const centerX = this.x + this.w * 0.5 + muzzle.x * this.facing;
-          const centerY = this.y + this.h * 0.5 + muzzle.y;
-          const startX = Math.round(centerX - projW * 0.5);
-          const startY = Math.round(centerY - projH * 0.5);
-          const speed = 600;
-          const vx = this.facing > 0 ? speed : -speed;
-
-          // Require projectile3 atlas (no fallback to projectile)
-          let projectileImage = null;
-          let projectileRects = null;
-          let projectileFrames = 1;
-          if (this.anim.animations.projectile3 && this.anim.animations.projectile3.rects && this.anim.animations.projectile3.rects.length > 0) {
-            projectileImage = this.anim.animations.projectile3.image;
-            projectileRects = this.anim.animations.projectile3.rects;
-            projectileFrames = projectileRects.length;
-            console.debug('[qte][laurin] using projectile3 atlas frames (final-frame spawn)');
-          } else {
-            console.warn('[qte][laurin] projectile3 atlas frames not found on final-frame spawn; aborting spawn to avoid fallback');
-            // Do not spawn if projectile3 frames absent
-            // reset flag to allow retry later
-            this.laurinAttack1ProjectileLaunched = false;
-            return;
+        if (total > 0 && this.anim.frame >= spawn.spawnFrame) {
+          // stays unlaunched (retry next tick) when the required sprite is missing
+          if (this.spawnProjectile(spawn, projectiles)) {
+            this.moveProjectileLaunched[name] = true;
+            // dev visual flash
+            const last = projectiles[projectiles.length - 1];
+            this.devSpawnFlashTimer = 0.25;
+            this.devSpawnFlashPos = { x: last.x + last.displayW * 0.5, y: last.y + last.displayH * 0.5 };
           }
-
-          const imgSrc = this.name === 'P1' ? P1_PROJECTILE_SRC : P2_PROJECTILE_SRC;
-          const proj = new Projectile(startX, startY, vx, 0, this, imgSrc, projectileFrames, projectileImage, projectileRects, 0, 0);
-          proj.applyKnockbackOnHit = false;
-          const distanceToEdge = this.facing > 0 ? this.canvasW - startX : startX;
-          proj.lifespan = Math.min(1.2, Math.abs(distanceToEdge / speed));
-          projectiles.push(proj);
-
-          // dev visual flash
-          this.devSpawnFlashTimer = 0.25;
-          this.devSpawnFlashPos = { x: startX + projW * 0.5, y: startY + projH * 0.5 };
         }
       }
-    } catch (e) { console.error('[qte][laurin] error spawning projectile3 on final frame', e); }
+    } catch (e) { console.error('[qte] error spawning melee move projectile', e); }
 
     // dev timer tick for spawn flash
     try { if (this.devSpawnFlashTimer > 0) this.devSpawnFlashTimer = Math.max(0, this.devSpawnFlashTimer - dt); } catch (e) {}
@@ -825,7 +1093,30 @@ export class Fighter {
   }
 
   draw() {
+    if (!this.ctx) return;
+    // status effects tint the sprite; it blinks during ledge and dodge invulnerability
+    const tint = this.status.tint();
+    const flicker = this.ledgeInvincibility + this.dodgeInvulnerability;
+    const blink = flicker > 0 && Math.floor(flicker * 20) % 2 === 0;
+    if (tint || blink) {
+      this.ctx.save();
+      if (tint) this.ctx.filter = tint;
+      if (blink) this.ctx.globalAlpha = 0.5;
+    }
     this.anim.draw(this.ctx, this.x, this.y, this.w, this.h, this.facing < 0);
+    if (tint || blink) this.ctx.restore();
+    // shield bubble: shrinks and turns red as shield health runs out
+    try {
+      if (this.shielding) {
+        const pct = Math.max(0, Math.min(1, this.shieldHealth / MAX_SHIELD));
+        this.ctx.save();
+        this.ctx.beginPath();
+        this.ctx.fillStyle = `rgba(${Math.round(255 * (1 - pct))},${Math.round(160 * pct)},255,0.35)`;
+        this.ctx.arc(this.x + this.w * 0.5, this.y + this.h * 0.5, Math.max(this.w, this.h) * (0.3 + 0.25 * pct), 0, Math.PI * 2);
+        this.ctx.fill();
+        this.ctx.restore();
+      }
+    } catch (e) {}
     // Draw health bar above character (only in singleplayer mode this will be used by gameLoop)
     try {
       if (this.hp > 0 && this.maxHp > 0) {
@@ -882,96 +1173,145 @@ export class Fighter {
     this.anim.setState(s);
   }
 
+  // Enter a toggle stance (Granny's R2): build the stance's extra animations
+  // from the move's atlas and hold the move's last frame as idle.
+  private enterStance(animationName: string, stance: NonNullable<MoveSet["attack2"]["stance"]>) {
+    this._stanceActive = true;
+    const base = this.anim.animations[animationName];
+    const baseRects = base && base.rects;
+    if (!baseRects || baseRects.length === 0) return;
+
+    // Build alternate animations from atlas grid cells if present
+    try {
+      const pick = (rx: number, ry: number) => baseRects.find((r: any) => r.x === rx && r.y === ry);
+      for (const [name, cells] of Object.entries(stance.altAnimations || {})) {
+        const rects = cells.map(([x, y]) => pick(x, y)).filter(Boolean);
+        if (rects.length !== cells.length) continue;
+        this.anim.animations[name] = {
+          src: base.src || '',
+          frames: rects.length,
+          fps: base.fps || 12,
+          loop: false,
+          frameW: base.frameW || 256,
+          frameH: base.frameH || 256,
+          image: base.image,
+          rects
+        } as any;
+      }
+    } catch (e) { /* defensive */ }
+
+    // Set idle to the last frame of the move by creating a one-frame animation
+    if (stance.holdLastFrame) {
+      try {
+        const lastRect = baseRects[baseRects.length - 1];
+        const holdName = `idle_from_${animationName}_last`;
+        this.anim.animations[holdName] = {
+          src: base.src || '',
+          frames: 1,
+          fps: 1,
+          loop: true,
+          frameW: base.frameW || 256,
+          frameH: base.frameH || 256,
+          image: base.image,
+          rects: [ lastRect ]
+        } as any;
+        // Immediately use that idle
+        this.anim.setState(holdName);
+      } catch (e) {}
+    }
+
+    // Add walking animation named 'walking' if atlas has it (atlas patching will populate it)
+    if (!this.anim.animations['walking'] && this.anim.animations['walk']) {
+      this.anim.animations['walking'] = this.anim.animations['walk'];
+    }
+  }
+
+  // Spawn the projectile described by a move at the muzzle. Returns false when
+  // the move requires atlas frames that this fighter doesn't have.
+  private spawnProjectile(spawn: ProjectileSpawn, projectiles: Projectile[]): boolean {
+    // Choose projectile frames: the move's projectile animation, then its fallback
+    let projectileImage = null;
+    let projectileRects = null;
+    let projectileFrames = 6;
+    const primary = this.anim.animations[spawn.projectile];
+    const fallbackName = spawn.fallbackProjectile === undefined ? spawn.projectile : spawn.fallbackProjectile;
+    const fallback = fallbackName ? this.anim.animations[fallbackName] : null;
+    if (primary && primary.rects && primary.rects.length > 0) {
+      projectileImage = primary.image;
+      projectileRects = primary.rects;
+      projectileFrames = primary.rects.length;
+    } else if (fallback && fallback.rects && fallback.rects.length > 0) {
+      projectileImage = fallback.image;
+      projectileRects = fallback.rects;
+      projectileFrames = fallback.rects.length;
+    } else if (fallbackName === null) {
+      console.warn(`[qte] ${this.name}: '${spawn.projectile}' atlas frames not found; not firing without them`);
+      return false;
+    } else {
+      console.log(`[qte] Projectile: No atlas frames for '${spawn.projectile}' in ${this.name}, falling back to individual image.`);
+      if (fallback && fallback.image) projectileImage = fallback.image;
+    }
+
+    // spawn point (muzzle) – use configured muzzleOffset (mirrored by facing)
+    const projW = 256, projH = 256;
+    const muzzle = this.muzzleOffset || { x: 36, y: -48 };
+    const centerX = this.x + this.w * 0.5 + muzzle.x * this.facing;
+    const centerY = this.y + this.h * 0.5 + muzzle.y;
+    const startX = Math.round(centerX - projW * 0.5);
+    const startY = Math.round(centerY - projH * 0.5);
+    const type = getProjectileType(spawn.type);
+    const speed = type.speed;
+    const vx = this.facing > 0 ? speed : -speed;
+    // this character's projectile sheet (the fallback sprite when no atlas frames exist)
+    const imgSrc = this.anim.animations.projectile?.src || (this.name === "P1" ? P1_PROJECTILE_SRC : P2_PROJECTILE_SRC);
+
+    const proj = new Projectile(startX, startY, vx, 0, this, imgSrc, projectileFrames, projectileImage, projectileRects,
+      type.initialVy || 0, type.gravity || 0);
+    proj.type = type;
+    proj.applyKnockbackOnHit = type.knockback;
+    proj.damage = type.damage;
+    proj.status = spawn.status || null;
+    // straight shots stop at the screen edge; curving and standing ones (speed 0,
+    // e.g. shockwave) live their full lifespan
+    const distanceToEdge = this.facing > 0 ? this.canvasW - startX : startX;
+    proj.lifespan = type.motion === "linear" && speed !== 0 ? Math.min(type.lifespan, Math.abs(distanceToEdge / speed)) : type.lifespan;
+    projectiles.push(proj);
+    // Blast visuals are spawned on projectile collision (in the simulation) — not here.
+    return true;
+  }
+
   // Helper method to handle ranged attacks
-  private handleRangedAttack(animationName: string, launched: boolean, setLaunched: (launched: boolean) => void, projectiles: Projectile[], blasts: Blast[] = []) {
-    // Spawn projectile at frame 2 of ranged animation (0-indexed, so frame 2 = 3rd frame)
+  private handleRangedAttack(animationName: "ranged1" | "ranged2", launched: boolean, setLaunched: (launched: boolean) => void, projectiles: Projectile[], blasts: Blast[] = []) {
+    const spawn = this.moves[animationName].projectile;
+    if (!spawn) return;
     const rangedFrames = this.anim.animations[animationName]?.frames || 4;
-    const projectileSpawnFrame = Math.min(2, rangedFrames - 1);
+    const projectileSpawnFrame = Math.min(spawn.spawnFrame, rangedFrames - 1);
 
-    // For automatic weapons (Laurin), we want to fire each time the hold-loop loops.
+    // For automatic weapons, we want to fire each time the hold-loop loops.
     // Detect loop transitions by comparing the animator frame to the last seen frame for this animation.
     const key = animationName;
     const lastFrame = this._lastAnimFrame[key] ?? -1;
     const frameJustLooped = (lastFrame > this.anim.frame) || (lastFrame === this.anim.animations[animationName]?.frames - 1 && this.anim.frame === 0);
     this._lastAnimFrame[key] = this.anim.frame;
 
-    // For Laurin's ranged1 (L1), only spawn once per attack, not on loops
-    const isLaurinRanged1 = (this as any).characterId === 'laurin' && animationName === 'ranged1';
-    const shouldSpawn = isLaurinRanged1
-      ? (!launched && this.anim.state === animationName && this.anim.frame === projectileSpawnFrame)
-      : ((!launched && this.anim.state === animationName && this.anim.frame === projectileSpawnFrame) || frameJustLooped);
+    // "once" moves only spawn once per attack, not on loops
+    const onSpawnFrame = !launched && this.anim.state === animationName && this.anim.frame === projectileSpawnFrame;
+    const shouldSpawn = spawn.fireMode === "once" ? onSpawnFrame : (onSpawnFrame || frameJustLooped);
 
     if (shouldSpawn) {
       setLaunched(true);
-      // spawn point (muzzle) – use configured muzzleOffset (mirrored by facing)
-      const projW = 256, projH = 256;
-      const muzzle = this.muzzleOffset || { x: 36, y: -48 };
-      const centerX = this.x + this.w * 0.5 + muzzle.x * this.facing;
-      const centerY = this.y + this.h * 0.5 + muzzle.y;
-      const startX = Math.round(centerX - projW * 0.5);
-      const startY = Math.round(centerY - projH * 0.5);
-      const speed = 600;
-      const vx = this.facing > 0 ? speed : -speed;
-      const imgSrc = this.name === "P1" ? P1_PROJECTILE_SRC : P2_PROJECTILE_SRC;
-
-      // Use atlas for projectile if available
-      let projectileImage = null;
-      let projectileRects = null;
-      let projectileFrames = 6;
-
-      // Choose projectile frames: prefer 'projectile2' for ranged1 (Laurin alt projectile),
-      // otherwise fall back to 'projectile'. This allows ranged1 to use an alternate
-      // projectile animation while ranged2 keeps the original.
-      const prefersProjectile2 = (animationName === "ranged1");
-      if (prefersProjectile2 && this.anim && this.anim.animations.projectile2 && this.anim.animations.projectile2.rects) {
-        projectileImage = this.anim.animations.projectile2.image;
-        projectileRects = this.anim.animations.projectile2.rects;
-        projectileFrames = this.anim.animations.projectile2.rects.length;
-        console.log(`[qte] Projectile using atlas frames 'projectile2' from ${this.name} (${projectileFrames} frames)`);
-      } else if (this.anim && this.anim.animations.projectile && this.anim.animations.projectile.rects) {
-        projectileImage = this.anim.animations.projectile.image;
-        projectileRects = this.anim.animations.projectile.rects;
-        projectileFrames = this.anim.animations.projectile.rects.length;
-        console.log(`[qte] Projectile using atlas frames from ${this.name} (${projectileFrames} frames)`);
-      } else {
-        console.log(`[qte] Projectile: No atlas frames for 'projectile' in ${this.name}, falling back to individual image.`);
-        if (this.anim && this.anim.animations.projectile && this.anim.animations.projectile.image) {
-          projectileImage = this.anim.animations.projectile.image;
-          console.log(`[qte] Projectile: using per-animation image for ${this.name}`);
-        }
-      }
-
-      // Allow per-character arcing projectile (e.g. Laurin's projectile2)
-      let initialVy = 0;
-      let gravity = 0;
-      try {
-        const cid = (this as any).characterId;
-        if (animationName === 'ranged1' && (cid === 'laurin' || cid === 'Laurin')) {
-          initialVy = -220;
-          gravity = 900;
-          console.log('[qte] spawning arcing projectile for Laurin');
-        }
-      } catch (e) {}
-      const proj = new Projectile(startX, startY, vx, 0, this, imgSrc, projectileFrames, projectileImage, projectileRects, initialVy, gravity);
-      // Ranged attacks 'ranged1' and 'ranged2' should only add percent damage
-      // and NOT apply knockback on hit.
-      if (animationName === "ranged1" || animationName === "ranged2") {
-        proj.applyKnockbackOnHit = false;
-      }
-      const distanceToEdge = this.facing > 0 ? this.canvasW - startX : startX;
-      proj.lifespan = Math.min(1.2, Math.abs(distanceToEdge / speed));
-      projectiles.push(proj);
-
-      // spawn a blast visual at the impact point immediately
-      // Blast visuals are now spawned on projectile collision (in gameLoop) — do not spawn here.
+      this.spawnProjectile(spawn, projectiles);
     }
   }
 
   // Method to handle taking damage
   takeDamage(amount: number = 1) {
     if (this.hp <= 0 || this.state === "defeat") return; // Already defeated
+    this.releaseGrab();
+    this.releaseLedge();
 
     this.hp = Math.max(0, this.hp - amount);
+    this.hpRegen = 0;
     this.hurt = true;
     this.hurtTimer = 0.3; // hurt animation duration
 
@@ -1015,8 +1355,16 @@ export class Fighter {
    */
   receiveHit(percentIncrease: number, baseKB: number = 120, strength: number = 1, angleRad?: number) {
     if (this.state === "defeat") return;
+    // a hit on the grabber (or a throw) ends the grab
+    this.releaseGrab();
+    this.releaseLedge();
+    // getting hit out of a helpless fall gives the fighter its options back
+    this.helpless = false;
+    this.dashTimer = 0;
 
     this.damagePercent += percentIncrease;
+    // still in hitstun from the last hit: this one continues the combo
+    this.comboHitsTaken = this.stunTimer > 0 ? this.comboHitsTaken + 1 : 1;
 
     const dp = this.damagePercent;
 
@@ -1024,9 +1372,12 @@ export class Fighter {
     const scale = 6 * strength; // tunable scaling factor
     const k = 30;
     const KB = baseKB + dp * scale + (dp * dp) / (k + dp);
+    this.lastKnockback = KB;
 
-    // Determine attacker side from angleRad if provided: if cos(angleRad) < 0 attacker was left
-    const attackerFromLeft = (typeof angleRad === 'number') ? (Math.cos(angleRad) < 0) : false;
+    // angleRad points back at the source of the hit (cos < 0: the attacker was
+    // left), so the hit pushes along its mirror image; without one the fighter
+    // is pushed backwards from where it faces
+    const away = typeof angleRad === 'number' ? Math.PI - angleRad : (this.facing > 0 ? Math.PI : 0);
 
     // Reduce knockback by 80% intensity globally when applying to NPCs? We'll apply 20% multiplier to KB
     const globalKnockbackMultiplier = 0.2; // 20% of original
@@ -1034,40 +1385,366 @@ export class Fighter {
       // small nudge for low damage
       const horizontalFactor = 0.12 * strength;
       const verticalFactor = 0.12 * strength;
-      const ang = typeof angleRad === 'number' ? angleRad : (this.facing > 0 ? Math.PI : 0);
-      const appliedVx = Math.cos(ang) * KB * horizontalFactor * globalKnockbackMultiplier;
-      const appliedVy = -Math.sin(ang) * KB * verticalFactor * globalKnockbackMultiplier;
+      const appliedVx = Math.cos(away) * KB * horizontalFactor * globalKnockbackMultiplier;
+      const appliedVy = -Math.sin(away) * KB * verticalFactor * globalKnockbackMultiplier;
       this.vx += appliedVx;
       this.vy += appliedVy;
-      this.stunTimer = Math.max(this.stunTimer, 0.25 * strength);
+      this.stunTimer = hitstunSeconds(KB, this.comboHitsTaken);
       this.hurt = true;
       this.hurtTimer = 0.3;
       if (this.anim.animations["hurt"]) this.anim.setState("hurt");
       // received hit (silent)
     } else {
-      // Launch in a parabolic arc opposite the attack source.
-      const clamped = Math.min(Math.max((dp - 30) / 70, 0), 1);
-      const scaleMultiplier = 1 + clamped * 2; // 1..3
-
-      // base vertical impulse (matches jump) - reduced to match new jump height
-      const baseJumpVy = -350;
-      const baseHor = 150;
-      const appliedVy = baseJumpVy * scaleMultiplier * globalKnockbackMultiplier;
-      const dir = attackerFromLeft ? 1 : -1; // push away from attacker
-      const appliedVx = baseHor * scaleMultiplier * dir * globalKnockbackMultiplier;
-
-      this.vx = appliedVx;
-      this.vy = appliedVy;
+      // Launch in a parabolic arc opposite the attack source: the character's
+      // impulse scaled by the hit's knockback and by weight
+      const { launchVy, launchVx, weight, diMaxAngle } = this.physics;
+      const speed = Math.hypot(launchVx, launchVy) * (KB / LAUNCH_REFERENCE_KB) * globalKnockbackMultiplier * weightFactor(weight);
+      // the hit's angle (hitbox/throw/blast), or the character's default arc
+      // away from where it faces, rotated by the victim's DI
+      const base = typeof angleRad === 'number'
+        ? away
+        : Math.atan2(-launchVy, launchVx * (this.facing > 0 ? -1 : 1));
+      const angle = applyDI(base, this.heldDirection, diMaxAngle);
+
+      this.vx = Math.cos(angle) * speed;
+      this.vy = -Math.sin(angle) * speed;
       this.onGround = false;
       this.launchedFromHit = true;
       this.hurt = true;
       this.hurtTimer = 0.45;
       if (this.anim.animations["hurt"]) this.anim.setState("hurt");
-      this.stunTimer = Math.max(this.stunTimer, 0.5 * strength);
+      this.stunTimer = hitstunSeconds(KB, this.comboHitsTaken);
       // launched (silent)
     }
   }
 
+  // Remember the held direction for DI (also called while frozen in hitstop)
+  readHeldDirection(input: Record<string, boolean>) {
+    this.heldDirection = {
+      x: (input[this.keys.right] ? 1 : 0) - (input[this.keys.left] ? 1 : 0),
+      y: (input[this.keys.up] ? 1 : 0) - (input[this.keys.down] ? 1 : 0),
+    };
+  }
+
+  // Raise/lower the shield and tick its timers. Shield stun keeps the shield
+  // up even when the key was released.
+  private updateShield(dt: number, held: boolean, inHitstun: boolean) {
+    if (this.shieldStun > 0) this.shieldStun = Math.max(0, this.shieldStun - dt);
+    if (this.shieldBreakTimer > 0) this.shieldBreakTimer = Math.max(0, this.shieldBreakTimer - dt);
+    const canShield = held && this.onGround && !this.flying && !inHitstun && this.shieldBreakTimer <= 0 && !this.grabbing &&
+      !this.attacking1 && !this.attacking2 && !this.ranging1 && !this.ranging2 && !this.parrying && this.state !== "defeat";
+    if (canShield || (this.shielding && this.shieldStun > 0)) {
+      if (!this.shielding) {
+        this.shielding = true;
+        this.setState("shield");
+      }
+      this.shieldHealth = Math.max(0, this.shieldHealth - SHIELD_DRAIN * dt);
+      if (this.shieldHealth <= 0) this.breakShield();
+      return;
+    }
+    if (this.shielding) {
+      this.shielding = false;
+      this.setState("idle");
+    }
+    this.shieldHealth = Math.min(MAX_SHIELD, this.shieldHealth + SHIELD_REGEN * this.status.healingMultiplier() * dt);
+  }
+
+  // true while a grab is out, recovering from a whiff or holding an opponent
+  get grabbing(): boolean {
+    return !!this.holding || this.grabTimer > 0;
+  }
+
+  // Start a grab, or keep a held opponent in front and pick the throw from
+  // the held direction (forward once the hold runs out).
+  private updateGrab(dt: number, pressed: boolean, inHitstun: boolean) {
+    if (this.grabTimer > 0) this.grabTimer = Math.max(0, this.grabTimer - dt);
+    if (this.holding) {
+      const held = this.holding;
+      held.x = this.x + this.facing * this.w * GRAB_HOLD_OFFSET;
+      held.y = this.y;
+      held.facing = -this.facing;
+      this.holdTimer -= dt;
+      this.pendingThrow = throwDirection(this.heldDirection, this.facing) || (this.holdTimer <= 0 ? "forward" : null);
+      return;
+    }
+    if (pressed && this.grabTimer <= 0 && this.onGround && !this.flying && !inHitstun &&
+      !this.attacking1 && !this.attacking2 && !this.ranging1 && !this.ranging2 && !this.parrying && this.state !== "defeat") {
+      this.grabTimer = GRAB_WHIFF_TIME;
+      this.inputBuffer.consume("grab");
+      if (this.shielding) {
+        this.shielding = false;
+        this.setState("idle");
+      }
+    }
+  }
+
+  /** Grab box in front of the body while the grab is active, else null. */
+  grabBox(): Rect | null {
+    if (this.holding || this.grabTimer <= GRAB_WHIFF_TIME - GRAB_ACTIVE_TIME) return null;
+    const body = this.rect();
+    const x = this.facing > 0 ? body.x + body.w : body.x - GRAB_RANGE;
+    return { x, y: body.y + body.h * 0.25, w: GRAB_RANGE, h: body.h * 0.5 };
+  }
+
+  /** Take hold of `target`: cancels its shield, parry and attacks. */
+  grab(target: Fighter) {
+    this.holding = target;
+    this.holdTimer = GRAB_HOLD_TIME;
+    this.grabTimer = 0;
+    this.pendingThrow = null;
+    target.heldBy = this;
+    target.releaseLedge();
+    target.shielding = false;
+    target.parrying = false;
+    target.attacking1 = target.attacking2 = target.ranging1 = target.ranging2 = false;
+    target.flying = false;
+    target.state = "held";
+    if (target.anim.animations["hurt"]) target.anim.setState("hurt");
+    console.log(`[qte] ${this.name} grabbed ${target.name}`);
+  }
+
+  /** Let go of a held opponent / get out of a grab. */
+  releaseGrab() {
+    if (this.holding) this.holding.heldBy = null;
+    if (this.heldBy) this.heldBy.holding = null;
+    this.holding = null;
+    this.heldBy = null;
+    this.pendingThrow = null;
+  }
+
+  /** Give this fighter an alternate form for Transform (animator built from `spriteConfig`). */
+  setAlternateForm(characterId: string, spriteConfig: FighterOptions["spriteConfig"]) {
+    this.altForm = { characterId, anim: createAnimator(spriteConfig) };
+  }
+
+  // true while the transform animation plays
+  get transforming(): boolean {
+    return this.transformAnimTimer > 0;
+  }
+
+  // Transform on the key press, and revert once the alternate form's time
+  // is up and the fighter isn't in the middle of an action.
+  private updateTransform(dt: number, pressed: boolean, inHitstun: boolean) {
+    if (this.transformCooldown > 0) this.transformCooldown = Math.max(0, this.transformCooldown - dt);
+    if (this.transformAnimTimer > 0) {
+      this.transformAnimTimer = Math.max(0, this.transformAnimTimer - dt);
+      if (this.transformAnimTimer <= 0 && this.state === "transform") this.setState("idle");
+    }
+    const busy = this.attacking1 || this.attacking2 || this.ranging1 || this.ranging2 || this.parrying || this.shielding ||
+      this.grabbing || this.flying || this.transforming || this.inSuper || this.inSpecial || !!this.ledge || this.state === "defeat";
+    if (this.transformed) {
+      this.transformTimer = Math.max(0, this.transformTimer - dt);
+      if (this.transformTimer <= 0 && !busy) {
+        this.swapForm();
+        this.transformCooldown = TRANSFORM_COOLDOWN;
+      }
+      return;
+    }
+    if (pressed && this.altForm && this.transformCooldown <= 0 && !busy && !inHitstun && !this.helpless) {
+      this.swapForm();
+      this.transformTimer = TRANSFORM_DURATION;
+    }
+  }
+
+  // Switch to the alternate form (keeps position, damage and timers) and play the transform animation
+  private swapForm() {
+    const next = this.altForm!;
+    this.altForm = { characterId: (this as any).characterId, anim: this.anim };
+    (this as any).characterId = next.characterId;
+    this.anim = next.anim;
+    this.moves = getMoveSet(next.characterId);
+    this.physics = getLaunchPhysics(next.characterId);
+    this.movement = getMovement(next.characterId);
+    this.flyCapacity = getFlyCapacity(next.characterId);
+    this.flyStamina = Math.min(this.flyStamina, this.flyCapacity);
+    this.transformed = !this.transformed;
+    this.transformAnimTimer = TRANSFORM_ANIM_TIME;
+    this.state = "transform";
+    this.anim.setState("transform");
+    console.log(`[qte] ${this.name} ${this.transformed ? "transformed into" : "reverted to"} ${next.characterId}`);
+  }
+
+  // true while ledge, roll, super or air dodge invulnerability lasts (see combat.canHit)
+  get invincible(): boolean {
+    return this.ledgeInvincibility > 0 || this.superInvulnerability > 0 || this.dodgeInvulnerability > 0;
+  }
+
+  // true while a super plays
+  get inSuper(): boolean {
+    return this.superTimer > 0;
+  }
+
+  /** Add to the super meter (capped at MAX_METER). */
+  gainMeter(amount: number) {
+    if (this.state === "defeat") return;
+    this.meter = Math.min(MAX_METER, this.meter + Math.max(0, amount));
+  }
+
+  // Start the super on the press of ranged1 + ranged2 (it cancels the ranged
+  // move started by whichever button came first) and end it when its time is up.
+  private updateSuper(dt: number, comboHeld: boolean, inHitstun: boolean) {
+    const pressed = comboHeld && !this._prevSuperCombo;
+    this._prevSuperCombo = comboHeld;
+    if (this.superTimer > 0) {
+      this.superTimer = Math.max(0, this.superTimer - dt);
+      if (this.superTimer <= 0) this.setState("idle");
+      return;
+    }
+    const move = this.moves.super;
+    if (!pressed || this.meter < move.cost || inHitstun || this.shielding || this.grabbing || this.transforming || this.helpless || this.inSpecial ||
+      this.attacking1 || this.attacking2 || this.parrying || this.state === "defeat") return;
+    this.meter -= move.cost;
+    this.ranging1 = this.ranging2 = false;
+    this.ranged2Hold = false;
+    this.superTimer = move.duration;
+    this.superInvulnerability = Math.max(this.superInvulnerability, move.invulnerable);
+    this.superStarted = true;
+    this.moveProjectileLaunched.super = false;
+    this.state = "super";
+    this.anim.setState(move.animation);
+    console.log(`[qte] ${this.name} SUPER`);
+  }
+
+  /** Full flight stamina and no helpless fall (respawn). */
+  resetFlight() {
+    this.flying = false;
+    this.flyHold = false;
+    this.helpless = false;
+    this.flyStamina = this.flyCapacity;
+  }
+
+  get inSpecial(): boolean {
+    return this.specialTimer > 0;
+  }
+
+  // Start the move-set's command special when its motion was just input (see inputBuffer.ts)
+  private updateSpecial(dt: number, inHitstun: boolean) {
+    if (this.specialTimer > 0) {
+      this.specialTimer = Math.max(0, this.specialTimer - dt);
+      if (this.specialTimer <= 0 && this.state === "special") this.setState("idle");
+      return;
+    }
+    const move = this.moves.special;
+    if (!move || inHitstun || this.shielding || this.grabbing || this.transforming || this.inSuper || this.helpless ||
+      this.attacking1 || this.attacking2 || this.ranging1 || this.ranging2 || this.parrying || this.airDodgeTimer > 0 || this.state === "defeat") return;
+    if (!this.inputBuffer.matchMotion(move.command, this.facing)) return;
+    this.specialTimer = move.duration;
+    this.moveProjectileLaunched.special = false;
+    this.state = "special";
+    this.anim.setState(move.animation);
+    console.log(`[qte] ${this.name} special`);
+  }
+
+  /** Hang on `ledge`: cancels the current action and starts ledge invincibility. */
+  grabLedge(ledge: Ledge) {
+    this.ledge = ledge;
+    this.ledgeTimer = 0;
+    this.ledgeInvincibility = LEDGE_INVINCIBLE_TIME;
+    // body off the edge, hands on the surface, facing the stage
+    this.x = ledge.x + ledge.side * this.w * LEDGE_HANG_OFFSET - this.w * 0.5;
+    this.y = ledge.y - this.h * LEDGE_HAND_HEIGHT;
+    this.vx = 0;
+    this.vy = 0;
+    this.facing = -ledge.side;
+    this.onGround = false;
+    this.flying = false;
+    this.helpless = false;
+    this.flyHold = false;
+    this.attacking1 = this.attacking2 = this.ranging1 = this.ranging2 = false;
+    this.parrying = false;
+    this.launchedFromHit = false;
+    this.hurt = false;
+    this._jumpHoldTime = null;
+    this.setState("ledge");
+    console.log(`[qte] ${this.name} grabbed a ledge`);
+  }
+
+  /** Let go of the ledge (no-op when not hanging). */
+  releaseLedge() {
+    if (!this.ledge) return;
+    this.ledge = null;
+    this.ledgeRegrabTimer = LEDGE_REGRAB_DELAY;
+  }
+
+  // Hang on the ledge and carry out the picked action. Returns true when
+  // the rest of update is skipped this tick.
+  private updateLedge(dt: number, input: Record<string, boolean>): boolean {
+    const ledge = this.ledge!;
+    this.vx = 0;
+    this.vy = 0;
+    this.ledgeTimer += dt;
+    this.anim.update(dt);
+    if (this.ledgeTimer < LEDGE_ACTION_DELAY) return true;
+    const toStage = -ledge.side;
+    const action = ledgeAction({
+      up: !!input[this.keys.up],
+      down: !!input[this.keys.down],
+      towardsStage: !!input[toStage > 0 ? this.keys.right : this.keys.left],
+      away: !!input[toStage > 0 ? this.keys.left : this.keys.right],
+      shield: !!(this.keys.shield && input[this.keys.shield]),
+      attack: !!input[this.keys.attack1],
+    }) || (this.ledgeTimer >= LEDGE_MAX_HANG ? "drop" : null);
+    if (!action) return true;
+    this.releaseLedge();
+    if (action === "drop") {
+      this.setState("jump");
+      return false;
+    }
+    // get-up, roll and attack all end standing on the stage; only the
+    // attack goes on with the rest of this update, which starts attack1
+    // from the held key (a get-up with up held must not jump right away)
+    const distance = action === "roll" ? LEDGE_ROLL_DISTANCE : LEDGE_GETUP_DISTANCE;
+    this.x = ledge.x + toStage * distance - this.w * 0.5;
+    this.landAt(ledge.y - this.h);
+    this.setState("idle");
+    if (action === "roll") this.ledgeInvincibility = Math.max(this.ledgeInvincibility, LEDGE_ROLL_TIME);
+    console.log(`[qte] ${this.name} ledge ${action}`);
+    return action !== "attack";
+  }
+
+  /**
+   * Block a hit with the shield: drains shield health and adds shield stun.
+   * Returns true when the hit broke the shield.
+   */
+  blockHit(damage: number): boolean {
+    this.shieldHealth -= Math.max(0, damage);
+    this.shieldStun = Math.max(this.shieldStun, shieldStunSeconds(damage));
+    if (this.shieldHealth > 0) return false;
+    this.breakShield();
+    return true;
+  }
+
+  private breakShield() {
+    this.shielding = false;
+    this.shieldStun = 0;
+    this.shieldHealth = SHIELD_AFTER_BREAK;
+    this.shieldBreakTimer = SHIELD_BREAK_STUN;
+    // the hitstun timer locks out every action for the whole break
+    this.stunTimer = Math.max(this.stunTimer, SHIELD_BREAK_STUN);
+    this.hurt = true;
+    this.hurtTimer = SHIELD_BREAK_STUN;
+    this.setState("idle");
+    if (this.anim.animations["hurt"]) this.anim.setState("hurt");
+    console.log(`[qte] ${this.name} shield broke`);
+  }
+
+  /** Apply a status effect; freeze also stuns and cancels the current action. */
+  applyStatus(def: StatusEffectDef) {
+    if (this.state === "defeat") return;
+    this.status.apply(def);
+    if (def.kind === "freeze") {
+      this.stunTimer = Math.max(this.stunTimer, def.duration);
+      this.attacking1 = this.attacking2 = this.ranging1 = this.ranging2 = false;
+      this.shielding = false;
+      this.flying = false;
+    }
+  }
+
+  // Freeze for `frames` ticks on impact (keeps the longer of two overlapping hitstops)
+  applyHitstop(frames: number) {
+    this.hitstop = Math.max(this.hitstop, Math.floor(frames));
+  }
+
   // Check if fighter is defeated
   isDefeated(): boolean {
     return this.hp <= 0;
@@ -0,0 +1,57 @@
+// Fixed-timestep driver for the simulation.
+// Rendering runs at whatever rate requestAnimationFrame gives us; the
+// simulation advances in constant FIXED_DT slices so Fighter/Projectile
+// state only depends on the inputs fed to each tick (replays, balance
+// tests and netplay all build on that guarantee).
+
+/** Simulation tick length in seconds (60Hz). */
+export const FIXED_DT = 1 / 60;
+
+/**
+ * Upper bound on real time consumed per rendered frame. Prevents the
+ * "spiral of death" after a tab switch or breakpoint: anything above this
+ * is dropped instead of being simulated in one huge catch-up burst.
+ */
+export const MAX_FRAME_TIME = 0.25;
+
+export class FixedStepLoop {
+  readonly step: number;
+  readonly maxFrameTime: number;
+  /** Number of ticks simulated since construction / last reset. */
+  tick = 0;
+  private accumulator = 0;
+
+  constructor(step: number = FIXED_DT, maxFrameTime: number = MAX_FRAME_TIME) {
+    this.step = step;
+    this.maxFrameTime = maxFrameTime;
+  }
+
+  /**
+   * Feed elapsed real time (seconds) and run `onTick` once per whole step
+   * that fits into the accumulator. Returns the number of ticks executed.
+   */
+  advance(frameSeconds: number, onTick: (dt: number, tick: number) => void): number {
+    const frame = Math.min(this.maxFrameTime, Math.max(0, frameSeconds || 0));
+    this.accumulator += frame;
+    let steps = 0;
+    // small epsilon so accumulated float error doesn't swallow a tick
+    while (this.accumulator + 1e-9 >= this.step) {
+      this.accumulator -= this.step;
+      onTick(this.step, this.tick);
+      this.tick++;
+      steps++;
+    }
+    if (this.accumulator < 0) this.accumulator = 0;
+    return steps;
+  }
+
+  /** Fraction (0..1) of a tick left in the accumulator; useful for render interpolation. */
+  get alpha(): number {
+    return this.accumulator / this.step;
+  }
+
+  reset() {
+    this.accumulator = 0;
+    this.tick = 0;
+  }
+}
@@ -0,0 +1,21 @@
+// Flight stamina for fighters whose dodge button flies (MovementDef.dodge ===
+// "fly"). Stamina is measured in seconds of flight: it drains while flying,
+// refills only while standing on the ground, and running dry ends the flight
+// with a forced fall in the helpless state (no actions, jumps, flight or air
+// dodge until the fighter lands or catches a ledge). The capacity per
+// character comes from CharacterConfig.flyCapacity.
+
+import { getCharacterConfig } from "./assetRegistry";
+
+/** seconds of flight for characters without a flyCapacity */
+export const DEFAULT_FLY_CAPACITY = 2.0;
+/** seconds of stamina regained per second on the ground */
+export const FLY_REGEN_RATE = 1.5;
+/** stamina needed to start a flight (avoids flickering on an empty gauge) */
+export const FLY_MIN_START = 0.2;
+
+/** Seconds `characterId` can fly on a full gauge. */
+export function getFlyCapacity(characterId: string | null | undefined): number {
+  const config = characterId ? getCharacterConfig(characterId) : null;
+  return config && typeof config.flyCapacity === "number" ? config.flyCapacity : DEFAULT_FLY_CAPACITY;
+}
@@ -0,0 +1,122 @@
+// Per-character frame data: which hitboxes are active and where the
+// hurtboxes sit on each frame of an animation. Boxes are given in pixels
+// inside the fighter's w×h sprite box for a fighter facing right; Fighter
+// mirrors them when facing left.
+//
+// Characters or animations without an entry fall back to the legacy
+// behaviour (one 60x40 box in front for the whole attack, centered 50%
+// hurtbox), so adding data here is opt-in per move.
+
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface HitboxDef extends Box {
+  /** percent added to the target */
+  damage: number;
+  /** knockback at 0% */
+  baseKB: number;
+  /** launch angle in degrees, 0 = straight away from the attacker, 90 = straight up */
+  angle: number;
+  /** knockback growth multiplier (receiveHit strength) */
+  strength: number;
+}
+
+export interface FrameData {
+  hitboxes?: HitboxDef[];
+  /** replaces the character's default hurtbox on this frame */
+  hurtboxes?: Box[];
+}
+
+export interface CharacterFrameData {
+  /** hurtbox used on frames without their own hurtboxes (legacy 50% box when omitted) */
+  hurtbox?: Box;
+  /** frame data indexed by animation name, then by frame index */
+  animations: Record<string, (FrameData | null)[]>;
+}
+
+/** Legacy hitbox used for attacks that have no frame data. */
+export const DEFAULT_HITBOX: HitboxDef = { x: 246, y: 121, w: 60, h: 40, damage: 30, baseKB: 140, angle: 60, strength: 0.6 };
+
+// Build a frame list of `total` frames where frames [from, to] carry `data`.
+function activeFrames(total: number, from: number, to: number, data: FrameData): (FrameData | null)[] {
+  const out: (FrameData | null)[] = [];
+  for (let i = 0; i < total; i++) out.push(i >= from && i <= to ? data : null);
+  return out;
+}
+
+const BODY: Box = { x: 64, y: 64, w: 128, h: 128 };
+
+export const FRAME_DATA: Record<string, CharacterFrameData> = {
+  ninja: {
+    hurtbox: BODY,
+    animations: {
+      // fast jab: short reach, active on frames 1-2
+      attack1: activeFrames(7, 1, 2, {
+        hitboxes: [{ x: 180, y: 110, w: 70, h: 40, damage: 30, baseKB: 140, angle: 40, strength: 0.6 }],
+      }),
+      // spinning kick: more reach, slightly later, launches upwards
+      attack2: activeFrames(7, 2, 4, {
+        hitboxes: [{ x: 170, y: 100, w: 100, h: 60, damage: 30, baseKB: 150, angle: 70, strength: 0.7 }],
+        hurtboxes: [{ x: 64, y: 64, w: 150, h: 128 }],
+      }),
+    },
+  },
+  cyboard: {
+    hurtbox: BODY,
+    animations: {
+      attack1: activeFrames(7, 2, 3, {
+        hitboxes: [{ x: 190, y: 105, w: 80, h: 50, damage: 30, baseKB: 140, angle: 40, strength: 0.6 }],
+      }),
+      attack2: activeFrames(7, 2, 4, {
+        hitboxes: [{ x: 180, y: 90, w: 90, h: 70, damage: 30, baseKB: 150, angle: 55, strength: 0.7 }],
+      }),
+    },
+  },
+  granny: {
+    hurtbox: { x: 72, y: 72, w: 112, h: 120 },
+    animations: {
+      // cane swipe: slow startup but long reach
+      attack1: activeFrames(7, 3, 4, {
+        hitboxes: [{ x: 170, y: 130, w: 130, h: 36, damage: 30, baseKB: 140, angle: 40, strength: 0.6 }],
+        hurtboxes: [{ x: 72, y: 72, w: 150, h: 120 }],
+      }),
+    },
+  },
+  laurin: {
+    hurtbox: BODY,
+    animations: {
+      attack1: activeFrames(7, 1, 3, {
+        hitboxes: [{ x: 180, y: 110, w: 80, h: 44, damage: 30, baseKB: 140, angle: 40, strength: 0.6 }],
+      }),
+    },
+  },
+};
+// the alt Laurin atlas shares Laurin's moves
+FRAME_DATA.laurin2 = FRAME_DATA.laurin;
+
+export function getCharacterFrameData(characterId: string | null | undefined): CharacterFrameData | null {
+  if (!characterId) return null;
+  return FRAME_DATA[String(characterId).toLowerCase()] || null;
+}
+
+/**
+ * Frame data for one animation frame. Returns undefined when the animation
+ * has no table (caller should use legacy boxes) and null for a table frame
+ * with nothing active.
+ */
+export function getFrameData(characterId: string | null | undefined, animation: string, frame: number): FrameData | null | undefined {
+  const data = getCharacterFrameData(characterId);
+  const frames = data && data.animations[animation];
+  if (!frames) return undefined;
+  return frames[Math.max(0, Math.min(frames.length - 1, frame))] || null;
+}
+
+/** Mirror a box given for a right-facing fighter into world space. */
+export function boxToWorld(box: Box, originX: number, originY: number, spriteW: number, facing: number): Box {
+  const x = facing >= 0 ? box.x : spriteW - box.x - box.w;
+  return { x: originX + x, y: originY + box.y, w: box.w, h: box.h };
+}
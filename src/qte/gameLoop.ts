@@ -1,10 +1,20 @@
-import { createKeyboardListener, readGamepadsUnified, P1_KEYS, P2_KEYS } from "./input";
+import { DEFAULT_MATCH_RULES, SINGLEPLAYER_RULES, MATCH_MODES, applyMatchRules, usesHp, fallCostsStock, describeResult, type MatchRules, type MatchMode } from "./matchRules";
+import { ScreenShake } from "./hitstop";
+import { MAX_SHIELD } from "./shield";
+import { STATUS_STYLES } from "./statusEffects";
+import { MAX_METER } from "./superMeter";
+import { getTransformForm } from "./transform";
+import { MatchClock, resolveTimeUp, SUDDEN_DEATH_PERCENT } from "./matchClock";
+import { createKeyboardListener, readGamepadsUnified, bindingCodes, P1_KEYS, P2_KEYS, PLAYER_KEYS, MAX_PLAYERS } from "./input";
 import { buildSpriteConfig, P1_BLAST_SRC, P2_BLAST_SRC, CHARACTERS, getCharacterConfig } from "./assetRegistry";
 import { loadAtlas } from "./atlasLoader";
 import { Fighter, Projectile, Blast } from "./fighter";
 import { getAnimationViewer } from "./animationViewer";
 import { SpriteAnimator } from "./spriteAnimator";
 import { SimpleAI, NPCController } from "./simpleAi";
+import { FixedStepLoop, FIXED_DT } from "./fixedStep";
+import { ReplayRecorder, ReplayPlayer, parseReplay, serializeReplay, type ReplayFile } from "./replay";
+import { Simulation } from "./simulation";
 
 // Game states
 enum GameState {
@@ -36,8 +46,8 @@ export function createGame(canvas: HTMLCanvasElement) {
 
   // Game state management
   let currentState: GameState = GameState.CHARACTER_SELECTION;
-  let selectedCharacters: { p1: string | null; p2: string | null } = { p1: null, p2: null };
-  let currentPlayerSelecting: 1 | 2 = 1;
+  let selectedCharacters: { p1: string | null; p2: string | null; p3?: string | null; p4?: string | null } = { p1: null, p2: null };
+  let currentPlayerSelecting = 1;
   let characterSelectionIndex = 0;
 
   function clamp(v: number, min: number, max: number) {
@@ -142,16 +152,110 @@ export function createGame(canvas: HTMLCanvasElement) {
   };
   document.body.appendChild(testSection2Btn);
 
+  // Replay recording / playback. The recorder captures the raw per-tick input
+  // map; a player replaces live input with the recorded frames.
+  let recorder: ReplayRecorder | null = null;
+  let replayPlayer: ReplayPlayer | null = null;
+  let pendingReplay: ReplayFile | null = null;
+
+  const saveReplayBtn = document.createElement('button');
+  saveReplayBtn.textContent = '💾 Save Replay';
+  saveReplayBtn.style.cssText = `
+    position: fixed;
+    top: 90px;
+    right: 10px;
+    z-index: 1000;
+    background: #6b7280;
+    color: white;
+    border: none;
+    border-radius: 4px;
+    padding: 8px 12px;
+    cursor: pointer;
+    font-size: 14px;
+    font-weight: bold;
+    box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+  `;
+  saveReplayBtn.onclick = () => {
+    if (!recorder || recorder.frameCount === 0) {
+      console.log('[qte][replay] Nothing recorded yet - start a match first');
+      return;
+    }
+    try {
+      const replay = recorder.toReplay();
+      replay.meta.createdAt = new Date().toISOString();
+      const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `qte-replay-${replay.meta.characters.p1}-vs-${replay.meta.characters.p2}.json`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      console.log(`[qte][replay] Saved replay with ${recorder.frameCount} frames`);
+    } catch (e) { console.error('[qte][replay] Failed to save replay', e); }
+  };
+  document.body.appendChild(saveReplayBtn);
+
+  const replayFileInput = document.createElement('input');
+  replayFileInput.type = 'file';
+  replayFileInput.accept = 'application/json,.json';
+  replayFileInput.style.display = 'none';
+  replayFileInput.onchange = async () => {
+    const file = replayFileInput.files && replayFileInput.files[0];
+    replayFileInput.value = '';
+    if (!file) return;
+    try {
+      startReplay(parseReplay(await file.text()));
+    } catch (e) { console.error('[qte][replay] Failed to load replay', e); }
+  };
+  document.body.appendChild(replayFileInput);
+
+  const loadReplayBtn = document.createElement('button');
+  loadReplayBtn.textContent = '▶️ Load Replay';
+  loadReplayBtn.style.cssText = saveReplayBtn.style.cssText;
+  loadReplayBtn.style.top = '130px';
+  loadReplayBtn.onclick = () => replayFileInput.click();
+  document.body.appendChild(loadReplayBtn);
+
+  // Rebuild the recorded match setup and queue the replay; initializeGame
+  // hands it to a ReplayPlayer once the fighters exist.
+  async function startReplay(replay: ReplayFile) {
+    if (replay.meta.fixedDt !== FIXED_DT) {
+      console.warn(`[qte][replay] Replay recorded at dt=${replay.meta.fixedDt}, running at ${FIXED_DT}; playback may diverge`);
+    }
+    selectedCharacters.p1 = replay.meta.characters.p1;
+    selectedCharacters.p2 = replay.meta.characters.p2;
+    selectedCharacters.p3 = replay.meta.characters.p3 || null;
+    selectedCharacters.p4 = replay.meta.characters.p4 || null;
+    playerCount = selectedCharacters.p4 ? 4 : selectedCharacters.p3 ? 3 : 2;
+    playersSelect.value = String(playerCount);
+    teamMode = !!replay.meta.teams;
+    friendlyFire = !!(replay.meta.teams && replay.meta.teams.friendlyFire);
+    Object.assign(menuRules, DEFAULT_MATCH_RULES, replay.meta.rules || {});
+    syncRulesMenu();
+    useAIForP2 = !!(replay.meta.ai && replay.meta.ai.p2);
+    aiCheckbox.checked = useAIForP2;
+    simpleAi = null;
+    npcController = null;
+    projectiles.length = 0;
+    blasts.length = 0;
+    gameOver = false;
+    winner = null;
+    pendingReplay = replay;
+    replayPlayer = null;
+    recorder = null;
+    if (replay.meta.sectionIdx !== currentSectionIdx) {
+      await preloadAndApplySection(replay.meta.sectionIdx);
+    }
+    currentState = GameState.GAME;
+    console.log(`[qte][replay] Starting playback: ${replay.meta.characters.p1} vs ${replay.meta.characters.p2}, section ${replay.meta.sectionIdx}`);
+    initializeGame();
+  }
+
   // Simple AI state (toggle) - declared once
   let simpleAi: any = null;
   let useAIForP2 = false; // toggled by UI (default: human)
   let npcController: any = null; // singleplayer NPC controller
 
-  // Helper: detect if running in any singleplayer mode (NPC controller or simple AI)
-  function isSingleplayerMode() {
-    return !!npcController || !!simpleAi || !!useAIForP2;
-  }
-
   // AI toggle UI (visible during character selection)
   const aiToggleContainer = document.createElement('div');
   aiToggleContainer.style.cssText = `position: fixed; top: 50px; right: 10px; z-index:1000; color: white;`;
@@ -169,9 +273,94 @@ export function createGame(canvas: HTMLCanvasElement) {
   aiToggleContainer.appendChild(aiLabel);
   document.body.appendChild(aiToggleContainer);
 
+  // Local multiplayer setup: 2-4 players, free-for-all or teams (P1+P3 vs P2+P4)
+  let playerCount = 2;
+  let teamMode = false;
+  let friendlyFire = false;
+  // HUD colors per player slot
+  const PLAYER_COLORS = ['#4aa3ff', '#ff7a7a', '#6ab04c', '#f5c542'];
+  const matchSetupContainer = document.createElement('div');
+  matchSetupContainer.style.cssText = `position: fixed; top: 80px; right: 10px; z-index:1000; color: white; font-family: Arial; font-size: 14px; display: flex; flex-direction: column; gap: 6px;`;
+  const playersLabel = document.createElement('label');
+  playersLabel.textContent = 'Players ';
+  const playersSelect = document.createElement('select');
+  for (let n = 2; n <= MAX_PLAYERS; n++) {
+    const opt = document.createElement('option');
+    opt.value = String(n);
+    opt.textContent = String(n);
+    playersSelect.appendChild(opt);
+  }
+  playersSelect.onchange = () => { playerCount = Math.max(2, Math.min(MAX_PLAYERS, parseInt(playersSelect.value, 10) || 2)); };
+  playersLabel.appendChild(playersSelect);
+  matchSetupContainer.appendChild(playersLabel);
+  const makeCheckbox = (text: string, onChange: (checked: boolean) => void, checked = false) => {
+    const label = document.createElement('label');
+    label.style.cssText = 'display: flex; align-items: center; gap:8px;';
+    const cb = document.createElement('input');
+    cb.type = 'checkbox';
+    cb.checked = checked;
+    cb.onchange = () => onChange(!!cb.checked);
+    label.appendChild(cb);
+    const span = document.createElement('span');
+    span.textContent = text;
+    label.appendChild(span);
+    matchSetupContainer.appendChild(label);
+    return cb;
+  };
+  makeCheckbox('Teams (P1+P3 vs P2+P4)', (v) => { teamMode = v; });
+  makeCheckbox('Friendly fire', (v) => { friendlyFire = v; });
+
+  // Match rules (pre-match menu): mode, stocks, time limit, stamina HP, items.
+  // The menu owns menuRules; each match plays on its own copy in matchRules
+  // (singleplayer and sudden death replace that copy, never the menu's).
+  const menuRules: MatchRules = { ...DEFAULT_MATCH_RULES };
+  let matchRules: MatchRules = { ...menuRules };
+  // match timer / time-mode scores / sudden death; replaced at match start
+  let matchClock = new MatchClock(0);
+  // camera shake on impacts (render-only, kicked by hit events)
+  const screenShake = new ScreenShake();
+  const makeSelect = (text: string, options: [string, string][], value: string, onChange: (v: string) => void) => {
+    const label = document.createElement('label');
+    label.textContent = `${text} `;
+    const select = document.createElement('select');
+    for (const [v, t] of options) {
+      const opt = document.createElement('option');
+      opt.value = v;
+      opt.textContent = t;
+      select.appendChild(opt);
+    }
+    select.value = value;
+    select.onchange = () => onChange(select.value);
+    label.appendChild(select);
+    matchSetupContainer.appendChild(label);
+    return select;
+  };
+  const modeSelect = makeSelect('Mode', MATCH_MODES.map((m) => [m, m] as [string, string]), menuRules.mode, (v) => { menuRules.mode = v as MatchMode; });
+  const stocksSelect = makeSelect('Stocks', ['1', '2', '3', '4', '5'].map((n) => [n, n] as [string, string]), String(menuRules.stocks), (v) => { menuRules.stocks = parseInt(v, 10) || 3; });
+  const timeSelect = makeSelect('Time', [['0', 'none'], ['120', '2 min'], ['180', '3 min'], ['300', '5 min']], String(menuRules.timeLimit), (v) => { menuRules.timeLimit = parseInt(v, 10) || 0; });
+  const hpSelect = makeSelect('Stamina HP', ['3', '6', '9'].map((n) => [n, n] as [string, string]), String(menuRules.hp), (v) => { menuRules.hp = parseInt(v, 10) || 3; });
+  const itemsCheckbox = makeCheckbox('Items', (v) => { menuRules.items = v; }, menuRules.items);
+  // reflect rules restored from a replay in the menu
+  function syncRulesMenu() {
+    modeSelect.value = menuRules.mode;
+    stocksSelect.value = String(menuRules.stocks);
+    timeSelect.value = String(menuRules.timeLimit);
+    hpSelect.value = String(menuRules.hp);
+    itemsCheckbox.checked = menuRules.items;
+  }
+  document.body.appendChild(matchSetupContainer);
+
+  // Team id for a player slot (1-based); in free-for-all everyone is their own team
+  function playerTeam(slot: number) {
+    return teamMode ? (slot % 2 === 1 ? 'team1' : 'team2') : `P${slot}`;
+  }
+
   // Game objects (will be initialized dynamically)
   let p1: Fighter | null = null;
   let p2: Fighter | null = null;
+  // P3/P4 in three- and four-player matches
+  let extraPlayers: Fighter[] = [];
+  const playerSpawns = new Map<Fighter, { x: number; y: number }>();
 
   // Additional NPCs
   let grannyNpc: Fighter | null = null;
@@ -302,10 +491,57 @@ export function createGame(canvas: HTMLCanvasElement) {
       return false;
     }
   }
+  // Landing sweep for the simulation: scan from the previous foot to the
+  // current foot in heatmap source-space for the first solid pixel and map
+  // it back to a canvas y. Returns null when nothing solid was crossed.
+  function findHeatmapLanding(canvasX: number, fromY: number, toY: number): number | null {
+    if (!(heatmapCtx && heatmapCanvas && heatmapCanvas.width > 0 && stageImg && stageImg.naturalWidth > 0)) return null;
+    // Compute background draw parameters (same logic used when drawing the stage image)
+    const imgW = stageImg.naturalWidth;
+    const imgH = stageImg.naturalHeight;
+    const canvasRatio = WIDTH / HEIGHT;
+    const imgRatio = imgW / imgH;
+    let sx = 0, sy = 0, sw = imgW, sh = imgH;
+    if (imgRatio > canvasRatio) {
+      sw = Math.round(imgH * canvasRatio);
+      sx = Math.round((imgW - sw) * 0.5);
+    } else {
+      sh = Math.round(imgW / canvasRatio);
+      sy = Math.round((imgH - sh) * 0.5);
+    }
+    const srcX = Math.floor(sx + (canvasX / WIDTH) * sw);
+    const prevSrcY = Math.floor(sy + (fromY / HEIGHT) * sh);
+    const currSrcY = Math.floor(sy + (toY / HEIGHT) * sh);
+    if (currSrcY < prevSrcY) return null;
+    for (let syi = prevSrcY; syi <= currSrcY; syi++) {
+      if (syi < 0 || syi >= heatmapCanvas.height || srcX < 0 || srcX >= heatmapCanvas.width) continue;
+      const d = heatmapCtx.getImageData(srcX, syi, 1, 1).data;
+      // Any pixel with >50% opacity is solid
+      if (d[3] > 128) return ((syi - sy) / sh) * HEIGHT;
+    }
+    return null;
+  }
   // ensure stage reflects initial size
   updateStageForSize();
   const projectiles: Projectile[] = [];
   const blasts: Blast[] = [];
+  // Simulation core (fighters, stage collision, projectiles, combat); the
+  // roster is synced from p1/p2/grannyNpc at the start of every tick.
+  const sim = new Simulation({
+    width: WIDTH,
+    height: HEIGHT,
+    fallThreshold: stage.fallThreshold,
+    stage: {
+      isSolidAt: isSolidAtCanvasPoint,
+      findLanding: findHeatmapLanding,
+      mainPlatformTop: getMainPlatformTop,
+      ready: () => heatmapReady,
+    },
+    projectiles,
+    blasts,
+    onFall: handleFallOff,
+    rules: matchRules,
+  });
   // Game state
 
   // Game state
@@ -586,6 +822,8 @@ export function createGame(canvas: HTMLCanvasElement) {
         color: grannyConfig.color,
         keys: P2_KEYS as any, // Use P2 keys for AI control
         name: 'Granny',
+        // NPCs share a faction so they don't hit each other
+        team: 'npc',
         characterId: grannyConfig.name,
         spriteConfig: grannySprite,
         ctx,
@@ -755,10 +993,6 @@ export function createGame(canvas: HTMLCanvasElement) {
     const dr = r1-r2, dg = g1-g2, db = b1-b2; return Math.sqrt(dr*dr+dg*dg+db*db);
   }
 
-  // Store atlases globally for projectiles/blasts
-  let globalAtlas1: any = null;
-  let globalAtlas2: any = null;
-
   // Atlases will be loaded dynamically when characters are selected
 
   // Asset diagnostics will be logged when characters are selected and loaded
@@ -839,9 +1073,32 @@ export function createGame(canvas: HTMLCanvasElement) {
 
     // Player indicator
     ctx.font = "bold 32px Arial";
-    ctx.fillStyle = currentPlayerSelecting === 1 ? "#4aa3ff" : "#ff7a7a";
+    ctx.fillStyle = PLAYER_COLORS[currentPlayerSelecting - 1];
     ctx.fillText(`Player ${currentPlayerSelecting} - Choose Your Fighter`, WIDTH / 2, 140);
 
+    // One slot per player along the bottom: picked character, or who is choosing
+    const picks = [selectedCharacters.p1, selectedCharacters.p2, selectedCharacters.p3, selectedCharacters.p4];
+    const slotW = 220;
+    const slotGap = 30;
+    const slotsX = WIDTH / 2 - (MAX_PLAYERS * slotW + (MAX_PLAYERS - 1) * slotGap) / 2;
+    ctx.font = "bold 20px Arial";
+    for (let i = 0; i < MAX_PLAYERS; i++) {
+      const x = slotsX + i * (slotW + slotGap);
+      const y = HEIGHT - 140;
+      const active = i < playerCount;
+      ctx.globalAlpha = active ? 1 : 0.3;
+      ctx.strokeStyle = PLAYER_COLORS[i];
+      ctx.lineWidth = i === currentPlayerSelecting - 1 ? 4 : 2;
+      ctx.strokeRect(x, y, slotW, 80);
+      ctx.fillStyle = PLAYER_COLORS[i];
+      const team = teamMode && active ? ` (Team ${i % 2 === 0 ? 1 : 2})` : '';
+      ctx.fillText(`P${i + 1}${team}`, x + slotW / 2, y + 30);
+      ctx.fillStyle = "#fff";
+      const label = !active ? '-' : (picks[i] || (i === currentPlayerSelecting - 1 ? 'choosing...' : ''));
+      ctx.fillText(String(label), x + slotW / 2, y + 60);
+    }
+    ctx.globalAlpha = 1;
+
     // Character preview
     if (characterSelectionAnimator) {
       const currentChar = CHARACTERS[characterSelectionIndex];
@@ -874,49 +1131,57 @@ export function createGame(canvas: HTMLCanvasElement) {
     const now = performance.now();
     if (now - lastInputTime < INPUT_DEBOUNCE) return;
 
-    const gp = readGamepadsUnified(P1_KEYS as any, P2_KEYS as any);
+    const gp = readGamepadsUnified(...PLAYER_KEYS.slice(0, playerCount));
     // Also read raw gamepad buttons for selection-specific mappings (e.g. X button)
     const pads = (navigator.getGamepads && navigator.getGamepads()) || [];
     const rawP1Pad = pads[0] || null;
+    // the player currently choosing may also use their own keys/pad
+    const selKeys = PLAYER_KEYS[currentPlayerSelecting - 1] || P1_KEYS;
+    const rawSelPad = pads[currentPlayerSelecting - 1] || null;
     const mergedInput: Record<string, boolean> = {};
 
     function getKeyboard(code: string) {
       return !!input[code];
     }
 
-    // Use P1 keys for character selection navigation
-    [P1_KEYS.left, P1_KEYS.right, P1_KEYS.attack1].forEach((k) => {
+    // Use P1 keys (and the selecting player's keys) for character selection navigation
+    [P1_KEYS.left, P1_KEYS.right, P1_KEYS.attack1, selKeys.left, selKeys.right, selKeys.attack1].forEach((k) => {
       if (k) mergedInput[k] = !!gp[k] || getKeyboard(k);
     });
+    const leftPressed = !!(mergedInput[P1_KEYS.left] || mergedInput[selKeys.left]);
+    const rightPressed = !!(mergedInput[P1_KEYS.right] || mergedInput[selKeys.right]);
 
     // Navigation
-    if (mergedInput[P1_KEYS.left]) {
+    if (leftPressed) {
       lastInputTime = now;
       characterSelectionIndex = (characterSelectionIndex - 1 + CHARACTERS.length) % CHARACTERS.length;
       loadCharacterForSelection(CHARACTERS[characterSelectionIndex].name);
     }
 
-    if (mergedInput[P1_KEYS.right]) {
+    if (rightPressed) {
       lastInputTime = now;
       characterSelectionIndex = (characterSelectionIndex + 1) % CHARACTERS.length;
       loadCharacterForSelection(CHARACTERS[characterSelectionIndex].name);
     }
 
     // Selection (confirm): allow either the mapped attack1 or the gamepad X button (b[0])
-    const confirmPressed = !!(mergedInput[P1_KEYS.attack1] || (rawP1Pad && rawP1Pad.buttons && rawP1Pad.buttons[0] && rawP1Pad.buttons[0].pressed));
+    const padConfirm = (pad: Gamepad | null) => !!(pad && pad.buttons && pad.buttons[0] && pad.buttons[0].pressed);
+    const confirmPressed = !!(mergedInput[P1_KEYS.attack1] || mergedInput[selKeys.attack1] || padConfirm(rawP1Pad) || padConfirm(rawSelPad));
 
     if (confirmPressed) {
       lastInputTime = now;
       const selectedChar = CHARACTERS[characterSelectionIndex].name;
 
-      if (currentPlayerSelecting === 1) {
-        selectedCharacters.p1 = selectedChar;
-        currentPlayerSelecting = 2;
-        console.log(`[qte] Player 1 selected: ${selectedChar}`);
+      (selectedCharacters as any)[`p${currentPlayerSelecting}`] = selectedChar;
+      console.log(`[qte] Player ${currentPlayerSelecting} selected: ${selectedChar}`);
+      if (currentPlayerSelecting < playerCount) {
+        currentPlayerSelecting++;
       } else {
-        selectedCharacters.p2 = selectedChar;
-        console.log(`[qte] Player 2 selected: ${selectedChar}`);
-        console.log(`[qte] Starting game with P1: ${selectedCharacters.p1}, P2: ${selectedCharacters.p2}`);
+        // drop picks from slots that are not playing this match
+        if (playerCount < 4) selectedCharacters.p4 = null;
+        if (playerCount < 3) selectedCharacters.p3 = null;
+        console.log(`[qte] Starting game with P1: ${selectedCharacters.p1}, P2: ${selectedCharacters.p2}` +
+          (playerCount > 2 ? `, P3: ${selectedCharacters.p3}` : '') + (playerCount > 3 ? `, P4: ${selectedCharacters.p4}` : ''));
         currentState = GameState.GAME;
         initializeGame();
         return;
@@ -927,6 +1192,38 @@ export function createGame(canvas: HTMLCanvasElement) {
     }
   }
 
+  // Alternate form for Transform (□): a copy of the fighter's patched
+  // animations with the form's atlas merged over them
+  async function prepareTransformForm(f: Fighter) {
+    const alt = getTransformForm((f as any).characterId);
+    if (!alt) return;
+    try {
+      const atlas: any = await loadAtlas(alt.atlasPath).catch(() => null);
+      const animations: any = {};
+      for (const s of Object.keys(f.anim.animations)) animations[s] = { ...f.anim.animations[s] };
+      if (atlas && atlas.image) {
+        for (const s of Object.keys(atlas.animations)) {
+          const dest = animations[s] = animations[s] || {};
+          dest.image = atlas.image;
+          dest.src = atlas.image.src;
+          dest.imageLoaded = true;
+          dest.imageBroken = false;
+          dest.rects = atlas.animations[s].frames;
+          dest.frameW = atlas.frameW;
+          dest.frameH = atlas.frameH;
+          dest.frames = atlas.animations[s].frames.length;
+          dest.fps = dest.fps || (typeof atlas.animations[s].fps === 'number' ? atlas.animations[s].fps : (atlas.meta?.fps || 12));
+          dest.loop = typeof atlas.animations[s].loop === 'boolean' ? atlas.animations[s].loop : (dest.loop ?? true);
+          if (s === 'hurt') dest.loop = false;
+        }
+      }
+      f.setAlternateForm(alt.name, { ...buildSpriteConfig(alt.folder, alt.overrides), animations });
+      console.log(`[qte] ${f.name} can transform into ${alt.name}`);
+    } catch (e) {
+      console.warn('[qte] failed to prepare transform form', e);
+    }
+  }
+
   async function initializeGame() {
     // This will be called when both players have selected their characters
     // Initializing game with selected characters (silent)
@@ -935,6 +1232,8 @@ export function createGame(canvas: HTMLCanvasElement) {
       console.error("[qte] Cannot initialize game - missing character selections");
       return;
     }
+    // this match's rules come from the menu as it is now
+    matchRules = { ...menuRules };
 
     try {
       // Load atlases for both characters
@@ -1035,6 +1334,7 @@ export function createGame(canvas: HTMLCanvasElement) {
         color: p1Config.color,
         keys: P1_KEYS as any,
         name: "P1",
+        team: playerTeam(1),
         characterId: p1Config.name,
         spriteConfig: p1Sprite,
         ctx,
@@ -1051,6 +1351,7 @@ export function createGame(canvas: HTMLCanvasElement) {
           color: p2Config.color,
           keys: P2_KEYS as any,
           name: "P2",
+          team: useAIForP2 ? 'npc' : playerTeam(2),
           characterId: p2Config.name,
           spriteConfig: p2Sprite,
           ctx,
@@ -1120,6 +1421,8 @@ export function createGame(canvas: HTMLCanvasElement) {
       // If we are in singleplayer mode (p2 null) and no AI requested, create an NPCController that uses cyboard animations
       // BUT ONLY in section 1 - NPC1 should not have AI in other sections
       if (!useAIForP2 && !p2 && currentSectionIdx === 1) {
+        // singleplayer story fight: HP based rules
+        matchRules = { ...SINGLEPLAYER_RULES };
         try {
           // Using imported NPCController
           const isSolid = (x: number, y: number) => isSolidAtCanvasPoint(x, y);
@@ -1174,6 +1477,30 @@ export function createGame(canvas: HTMLCanvasElement) {
             // Non-looping hurt animation globally
             if (state === 'hurt') dest.loop = false;
             // Patched atlas frames for state (silent)
+          } else if (state === 'shield' && atlas.animations.parry) {
+            // No shield frames in the atlas: hold the first parry frame
+            dest.rects = atlas.animations.parry.frames.slice(0, 1);
+            dest.frameW = atlas.frameW;
+            dest.frameH = atlas.frameH;
+            dest.frames = 1;
+          } else if (state === 'transform' && atlas.animations.spawn) {
+            // No transform frames in the atlas: play the spawn animation
+            dest.rects = atlas.animations.spawn.frames;
+            dest.frameW = atlas.frameW;
+            dest.frameH = atlas.frameH;
+            dest.frames = atlas.animations.spawn.frames.length;
+          } else if (state === 'super' && atlas.animations.attack2) {
+            // No super frames in the atlas: play attack2
+            dest.rects = atlas.animations.attack2.frames;
+            dest.frameW = atlas.frameW;
+            dest.frameH = atlas.frameH;
+            dest.frames = atlas.animations.attack2.frames.length;
+          } else if (state === 'ledge' && atlas.animations.jump) {
+            // No ledge frames in the atlas: hold the last jump frame
+            dest.rects = atlas.animations.jump.frames.slice(-1);
+            dest.frameW = atlas.frameW;
+            dest.frameH = atlas.frameH;
+            dest.frames = 1;
           } else {
             // No atlas frames but still use atlas image
             dest.frameW = dest.frameW || atlas.frameW;
@@ -1186,6 +1513,59 @@ export function createGame(canvas: HTMLCanvasElement) {
       patchAnimator(p1.anim, atlas1);
       if (p2) patchAnimator(p2.anim, atlas2);
 
+      // P3/P4 for three- and four-player matches: P3 left of center, P4 right of center
+      extraPlayers = [];
+      playerSpawns.clear();
+      if (p2 && p2Spawn) playerSpawns.set(p2, { ...p2Spawn });
+      const extraIds = [selectedCharacters.p3, selectedCharacters.p4].slice(0, Math.max(0, playerCount - 2));
+      for (let i = 0; i < extraIds.length; i++) {
+        const cfg = extraIds[i] ? getCharacterConfig(extraIds[i] as string) : null;
+        if (!cfg) continue;
+        const slot = i + 3;
+        const atlas = await loadAtlas(cfg.atlasPath).catch(() => null);
+        const spawn = { x: Math.floor(WIDTH * (slot === 3 ? 0.35 : 0.65)), y: p1Spawn.y };
+        const f = new Fighter({
+          x: spawn.x,
+          y: spawn.y,
+          color: cfg.color,
+          keys: PLAYER_KEYS[slot - 1] as any,
+          name: `P${slot}`,
+          team: playerTeam(slot),
+          characterId: cfg.name,
+          spriteConfig: buildSpriteConfig(cfg.folder, cfg.overrides),
+          ctx,
+          canvasWidth: WIDTH,
+          canvasHeight: HEIGHT,
+          muzzleOffset: slot === 3 ? { x: 36, y: -48 } : { x: -36, y: -48 }
+        });
+        if (slot === 4) f.facing = -1;
+        (f as any).allowGroundCollision = false;
+        patchAnimator(f.anim, atlas);
+        // merge extra atlases (e.g. Laurin's projectile3) the same way as for P1/P2
+        for (const ea of (Array.isArray(cfg.extraAtlas) ? cfg.extraAtlas : [])) {
+          const e: any = await loadAtlas(ea.replace(/\.json$/, '')).catch(() => null);
+          if (!e || !e.image) continue;
+          for (const st of Object.keys(e.animations)) {
+            const dest: any = f.anim.animations[st] = f.anim.animations[st] || ({} as any);
+            dest.image = e.image;
+            dest.src = e.image.src;
+            dest.imageLoaded = true;
+            dest.imageBroken = false;
+            dest.rects = e.animations[st].frames;
+            dest.frameW = e.frameW;
+            dest.frameH = e.frameH;
+            dest.frames = e.animations[st].frames.length;
+            dest.fps = dest.fps || (typeof e.animations[st].fps === 'number' ? e.animations[st].fps : (e.meta?.fps || 12));
+            dest.loop = typeof e.animations[st].loop === 'boolean' ? e.animations[st].loop : (dest.loop ?? true);
+            if (st === 'hurt') dest.loop = false;
+          }
+        }
+        if (cfg.name === 'laurin' && f.anim.animations['jump']) f.anim.animations['jump'].loop = false;
+        extraPlayers.push(f);
+        playerSpawns.set(f, spawn);
+        console.log(`[qte] ✅ P${slot} created: ${cfg.name} (team ${f.team})`);
+      }
+
       // Per-character tweaks: ensure Laurin's jump plays once (non-looping)
       try {
         if (p1Config && (p1Config.name === 'laurin' || p1Config.name === 'Laurin') && p1 && p1.anim && p1.anim.animations['jump']) {
@@ -1281,12 +1661,35 @@ export function createGame(canvas: HTMLCanvasElement) {
         }
       } catch (e) { console.warn('[qte] failed to patch extra atlases', e); }
 
-      // Store atlases globally for projectiles/blasts
-      globalAtlas1 = atlas1;
-      globalAtlas2 = atlas2;
+      for (const f of [p1, p2, ...extraPlayers]) if (f) await prepareTransformForm(f);
 
       // Note: Granny NPC will be created automatically when transitioning to section 2+
 
+      // Lives/HP per the match rules
+      for (const f of [p1, p2, ...extraPlayers]) if (f) applyMatchRules(f, matchRules);
+      matchClock = new MatchClock(matchRules.timeLimit);
+      sim.combos.clear();
+
+      // Start the simulation clock from tick 0 now that both fighters exist
+      clock.reset();
+      for (const k of Object.keys(prevHeldInput)) delete prevHeldInput[k];
+
+      // Either play back a queued replay or record this match from tick 0
+      if (pendingReplay) {
+        replayPlayer = new ReplayPlayer(pendingReplay);
+        pendingReplay = null;
+        recorder = null;
+      } else {
+        replayPlayer = null;
+        recorder = new ReplayRecorder({
+          characters: { p1: selectedCharacters.p1, p2: selectedCharacters.p2, p3: selectedCharacters.p3 || null, p4: selectedCharacters.p4 || null },
+          teams: teamMode ? { friendlyFire } : undefined,
+          rules: { ...matchRules },
+          sectionIdx: currentSectionIdx,
+          ai: { p2: useAIForP2 },
+        });
+      }
+
       // Game initialized successfully (silent)
     } catch (e) {
       console.error("[qte] Failed to initialize game:", e);
@@ -1296,6 +1699,7 @@ export function createGame(canvas: HTMLCanvasElement) {
   // Initialize game for singleplayer (P1 only). Creates P1 and avoids creating P2.
   async function initializeSingleplayer() {
     console.log('[qte] Initializing singleplayer with P1=laurin');
+    matchRules = { ...SINGLEPLAYER_RULES };
 
     try {
       const p1Config = getCharacterConfig(selectedCharacters.p1 || 'laurin');
@@ -1425,6 +1829,7 @@ export function createGame(canvas: HTMLCanvasElement) {
             color: p2Config.color,
             keys: P2_KEYS as any,
             name: 'P2',
+            team: 'npc',
             characterId: p2Config.name,
             spriteConfig: p2Sprite,
             ctx,
@@ -1462,9 +1867,6 @@ export function createGame(canvas: HTMLCanvasElement) {
             }
           } catch (e) { /* defensive */ }
 
-          // set global atlas for p2
-          globalAtlas2 = atlas2;
-
           // Ensure attack1 and defeat animations exist for P2 (fallbacks if atlas missing them)
           try {
             if (p2 && p2.anim) {
@@ -1570,7 +1972,7 @@ export function createGame(canvas: HTMLCanvasElement) {
               dest.loop = (e.animations[s] && typeof (e.animations[s] as any).loop === 'boolean') ? (e.animations[s] as any).loop : (dest.loop ?? true);
               console.log(`[qte] Patched extra atlas animation ${s} into P1 (singleplayer)`);
             }
-            // Merge extra animations into atlas1.animations map so other systems can reference them via globalAtlas1
+            // Merge extra animations into atlas1.animations map so other systems can reference them
             atlas1.animations = atlas1.animations || {};
             for (const s of Object.keys(e.animations)) {
               atlas1.animations[s] = atlas1.animations[s] || e.animations[s];
@@ -1580,12 +1982,15 @@ export function createGame(canvas: HTMLCanvasElement) {
       } catch (err) {
         console.warn('[qte] failed to load/patch extra atlases for singleplayer', err);
       }
-
-      // Ensure globalAtlas1 points to atlas1 so projectiles/blasts can use merged animations
-      globalAtlas1 = atlas1;
+      if (p1) await prepareTransformForm(p1);
 
       // Note: Granny NPC will be created automatically when transitioning to section 2+
 
+      // Lives/HP per the match rules
+      for (const f of [p1, p2, ...extraPlayers]) if (f) applyMatchRules(f, matchRules);
+      matchClock = new MatchClock(matchRules.timeLimit);
+      sim.combos.clear();
+
       console.log('[qte] Singleplayer initialized');
     } catch (e) {
       console.error('[qte] Singleplayer init failed', e);
@@ -1595,96 +2000,260 @@ export function createGame(canvas: HTMLCanvasElement) {
   // Initialize character selection
   loadCharacterForSelection(CHARACTERS[0].name);
 
+  // Fixed-step simulation clock; rendering samples whatever state the last tick produced
+  const clock = new FixedStepLoop(FIXED_DT);
   let last = performance.now();
   function loop(now: number) {
-    const dt = Math.min(0.05, (now - last) / 1000);
+    const frameDt = Math.max(0, (now - last) / 1000);
     last = now;
 
     if (currentState === GameState.CHARACTER_SELECTION) {
+      const dt = Math.min(0.05, frameDt);
       handleCharacterSelectionInput(dt);
       drawCharacterSelection(dt);
       requestAnimationFrame(loop);
       return;
     }
 
-    // merge inputs
-    const gp = readGamepadsUnified(P1_KEYS as any, P2_KEYS as any);
-    const mergedInput: Record<string, boolean> = {};
-    function getKeyboard(code: string) {
-      return !!input[code];
+    clock.advance(frameDt, simulateTick);
+    renderFrame(frameDt);
+
+    requestAnimationFrame(loop);
+  }
+
+  // Sample keyboard + gamepads into the per-tick input map (or the next
+  // replay frame while a replay is playing back)
+  function gatherInput(): Record<string, boolean> {
+    let mergedInput: Record<string, boolean> = {};
+    const replayed = replayPlayer ? replayPlayer.next() : null;
+    if (replayed) {
+      mergedInput = replayed;
+    } else {
+      if (replayPlayer) {
+        console.log(`[qte][replay] Playback finished after ${replayPlayer.length} frames - returning to live input`);
+        replayPlayer = null;
+      }
+      // merge inputs
+      const activeKeys = PLAYER_KEYS.slice(0, playerCount);
+      const gp = readGamepadsUnified(...activeKeys);
+      function getKeyboard(code: string) {
+        return !!input[code];
+      }
+      for (const keys of activeKeys) {
+        bindingCodes(keys).forEach((k) => {
+          mergedInput[k] = !!gp[k] || getKeyboard(k);
+        });
+      }
+      // record the raw held state; parry edge detection below is derived from it
+      if (recorder && p1) recorder.record(mergedInput);
     }
-    [P1_KEYS.left, P1_KEYS.right, P1_KEYS.up, P1_KEYS.down, P1_KEYS.attack1, P1_KEYS.attack2, P1_KEYS.parry, P1_KEYS.ranged1, P1_KEYS.ranged2, P1_KEYS.transform, P1_KEYS.dodge].forEach((k) => {
-      if (k) mergedInput[k] = !!gp[k] || getKeyboard(k);
-    });
-    [P2_KEYS.left, P2_KEYS.right, P2_KEYS.up, P2_KEYS.down, P2_KEYS.attack1, P2_KEYS.attack2, P2_KEYS.parry, P2_KEYS.ranged1, P2_KEYS.ranged2, P2_KEYS.transform, P2_KEYS.dodge].forEach((k) => {
-      if (k) mergedInput[k] = !!gp[k] || getKeyboard(k);
-    });
 
     // Convert parry input to edge (keydown) so holding the key doesn't retrigger parry
     try {
-      const p1Held = !!mergedInput[P1_KEYS.parry];
-      const p2Held = !!mergedInput[P2_KEYS.parry];
-      // only true on the frame the key transitioned from up -> down
-      mergedInput[P1_KEYS.parry] = p1Held && !prevHeldInput[P1_KEYS.parry];
-      mergedInput[P2_KEYS.parry] = p2Held && !prevHeldInput[P2_KEYS.parry];
-      prevHeldInput[P1_KEYS.parry] = p1Held;
-      prevHeldInput[P2_KEYS.parry] = p2Held;
+      for (const keys of PLAYER_KEYS) {
+        const held = !!mergedInput[keys.parry];
+        // only true on the frame the key transitioned from up -> down
+        mergedInput[keys.parry] = held && !prevHeldInput[keys.parry];
+        prevHeldInput[keys.parry] = held;
+      }
     } catch (e) { /* defensive */ }
 
-    // If AI is enabled, let it mutate the mergedInput for P2
-    // Pause AI updates during section transitions to avoid NPC running off
-    // platforms while the heatmap/background are being reloaded.
-    if (!transitioning && simpleAi && p2) {
-      try {
-        // Respect temporary AI pause timer on the fighter (set on spawn)
+    return mergedInput;
+  }
+
+  // Bottom-fall handling (offBottom) for the game: P1 loses a stock and
+  // respawns in the current section, P2 (NPC) is removed permanently.
+  // Returns true when the fighter was taken out of the match.
+  function handleFallOff(f: Fighter): boolean {
+    const reason = 'fell off stage';
+
+    // Other players (the versus AI included) lose a stock (per the match
+    // rules) and respawn at their own spawn; the match ends on last team standing.
+    if (isMatchPlayer(f) && f !== p1) {
+      return respawnPlayer(f, reason);
+    }
+
+    // For P1: respawn and lose stock (normal behavior)
+    if (f.name === 'P1') {
+      console.log(`[qte] P1 ${reason} — respawning${fallCostsStock(matchRules) ? ' and losing a stock' : ''}`);
+
+      // decrement stocks and handle defeat
+      if (fallCostsStock(matchRules)) f.stocks = (typeof f.stocks === 'number') ? Math.max(0, f.stocks - 1) : 0;
+      if (f.stocks <= 0) {
+        // game over for P1
+        f.state = 'defeat';
+        f.attacking1 = false;
+        f.attacking2 = false;
+        f.parrying = false;
+        f.ranging1 = false;
+        f.ranging2 = false;
+        f.vx = 0;
+        f.vy = 0;
+        if (f.anim && typeof f.anim.setState === 'function') f.anim.setState('defeat');
+        // the match result is decided by checkLastTeamStanding after the tick
+        console.log(`[qte] P1 has no stocks left`);
+      } else {
+        // Respawn in current section, not always section_01
         try {
-          const t = (p2 as any)._aiPauseTimer;
-          if (typeof t === 'number' && t > 0) {
-            (p2 as any)._aiPauseTimer = Math.max(0, t - dt);
-            // simpleAi paused for P2 (debug log removed)
+          const currentData = sectionCache[currentSectionIdx] || sectionCache[1] || null;
+          if (currentData) {
+            // switch assets to current section (or fallback to section_01)
+            applySectionAssets(currentData);
+            // Don't reset currentSectionIdx - stay in current section
+            console.log(`[qte] P1 respawned in section ${currentSectionIdx} (not resetting to section 1)`);
+            // P1 spawn
+            const sp1 = currentData.spawn_points && currentData.spawn_points.find((sp: any) => sp.name === 'player_start');
+            if (sp1) {
+              const c1 = mapSectionToCanvas(sp1.x, sp1.y);
+              c1.y -= 250;
+              f.x = c1.x; f.y = c1.y;
+              console.log(`[qte] P1 respawned at section ${currentSectionIdx} spawn point:`, sp1, '->', c1);
+            } else {
+              const mainPlatTop = getMainPlatformTop();
+              f.x = 100; f.y = mainPlatTop - f.h;
+              console.log(`[qte] P1 respawned at fallback position in section ${currentSectionIdx}`);
+            }
+            // NPC spawn (if present and in section 1)
+            if (p2 && currentSectionIdx === 1) {
+              const sp2 = currentData.spawn_points && currentData.spawn_points.find((sp: any) => sp.name === 'npc_spawn_1');
+              if (sp2) {
+                const c2 = mapSectionToCanvas(sp2.x, sp2.y);
+                c2.y -= 250;
+                p2.x = c2.x; p2.y = c2.y; p2.vx = 0; p2.vy = 0; p2.facing = -1;
+                console.log(`[qte] P2 (NPC1) respawned at section ${currentSectionIdx} spawn point:`, sp2, '->', c2);
+              }
+            } else if (currentSectionIdx > 1) {
+              console.log(`[qte] P2 (NPC1) not respawned - current section ${currentSectionIdx} > 1`);
+            }
           } else {
-            // AI state logging removed to reduce spam
-            simpleAi.update(dt, mergedInput, p2, p1, projectiles);
-            // AI input logging removed to reduce spam
+            // If cache missing, fall back to a safe placement
+            const mainPlatTop = getMainPlatformTop();
+            f.x = 100; f.y = mainPlatTop - f.h;
           }
-        } catch (e) { simpleAi.update(dt, mergedInput, p2, p1, projectiles); }
-      } catch (e) {
-        // swallow AI errors to avoid breaking the loop
+        } catch (e) {
+          const mainPlatTop = getMainPlatformTop();
+          f.x = 100; f.y = mainPlatTop - f.h;
+        }
+        f.vx = 0;
+        f.vy = 0;
+        f.damagePercent = 0;
+        f.launchedFromHit = false;
+        f.hurt = false;
+        f.hurtTimer = 0;
+        f.stunTimer = 0;
       }
-    } else if (transitioning && simpleAi) {
-      // Debug: indicate AI update skipped during section transition
-      // simpleAi.update skipped due to section transition (debug log removed)
-    }
-
-    // NPC controller for singleplayer (p2 exists but controlled by NPCController when present)
-    if (!transitioning && npcController && p2) {
+    } else {
+      // For P2 (NPC): permanent defeat - no respawn (log suppressed)
+      f.state = 'defeat';
+      // Immediately remove defeated NPC from the scene so it is not drawn
       try {
-        const t = (p2 as any)._aiPauseTimer;
-        if (typeof t === 'number' && t > 0) {
-          (p2 as any)._aiPauseTimer = Math.max(0, t - dt);
-          // npcController paused for P2 (debug log removed)
-        } else {
-          npcController.update(dt, mergedInput, p2, p1, projectiles);
-        }
+        // clear AI/controllers
+        npcController = null;
+        simpleAi = null;
+        // if we're iterating over p1/p2, remove the p2 reference
+        if (f.name === 'P2') p2 = null;
       } catch (e) {}
-    } else if (transitioning && npcController) {
-      // npcController.update skipped due to section transition (debug log removed)
+      f.attacking1 = false;
+      f.attacking2 = false;
+      f.parrying = false;
+      f.ranging1 = false;
+      f.ranging2 = false;
+      f.vx = 0;
+      f.vy = 0;
+      f.maxHp = 0;
+      f.hp = 0;
+      if (f.anim && typeof f.anim.setState === 'function') f.anim.setState('defeat');
+      // P2 (NPC) defeated — log suppressed
     }
+    return f.name !== 'P1';
+  }
 
-    // Granny NPC controller
-    if (!transitioning && grannyController && grannyNpc) {
-      try {
-        const t = (grannyNpc as any)._aiPauseTimer;
-        if (typeof t === 'number' && t > 0) {
-          (grannyNpc as any)._aiPauseTimer = Math.max(0, t - dt);
-          // grannyController paused (debug log removed)
-        } else {
-          grannyController.update(dt, mergedInput, grannyNpc, p1, projectiles);
-        }
-      } catch (e) {}
-    } else if (transitioning && grannyController) {
-      // grannyController.update skipped due to section transition (debug log removed)
+  // Versus player slots, whether a human or the versus AI plays them (the
+  // singleplayer NPC is not a player)
+  function isMatchPlayer(f: Fighter | null): f is Fighter {
+    if (!f) return false;
+    return f === p1 || extraPlayers.includes(f) || (f === p2 && !npcController);
+  }
+
+  // Stock loss + respawn for P2-P4. Defeated
+  // players stay in the roster (frozen) so their HUD corner keeps showing.
+  function respawnPlayer(f: Fighter, reason: string): boolean {
+    if (fallCostsStock(matchRules)) f.stocks = (typeof f.stocks === 'number') ? Math.max(0, f.stocks - 1) : 0;
+    f.vx = 0;
+    f.vy = 0;
+    if (f.stocks <= 0) {
+      f.state = 'defeat';
+      f.attacking1 = false;
+      f.attacking2 = false;
+      f.parrying = false;
+      f.ranging1 = false;
+      f.ranging2 = false;
+      (f as any)._frozen = true;
+      if (f.anim && typeof f.anim.setState === 'function') f.anim.setState('defeat');
+      console.log(`[qte] ${f.name} ${reason} — no stocks left`);
+      return false;
+    }
+    const sp = playerSpawns.get(f);
+    if (sp) {
+      f.x = sp.x; f.y = sp.y;
+    } else {
+      f.x = WIDTH * 0.5 - f.w * 0.5; f.y = getMainPlatformTop() - f.h;
     }
+    f.onGround = false;
+    f.damagePercent = 0;
+    f.launchedFromHit = false;
+    f.hurt = false;
+    f.hurtTimer = 0;
+    f.stunTimer = 0;
+    console.log(`[qte] ${f.name} ${reason} — respawning with ${f.stocks} stock(s)`);
+    return false;
+  }
+
+  // Time ran out: the leading team wins, a tie goes to sudden death
+  // (tied players at 300%, one stock each, shrinking blast zone)
+  function handleTimeUp() {
+    const players = [p1, p2, ...extraPlayers].filter(isMatchPlayer);
+    if (players.length === 0) return;
+    const { winner: leader, tied: leaders } = resolveTimeUp(players, matchRules, matchClock);
+    if (leaders.length === 0) {
+      gameOver = true;
+      winner = leader;
+      console.log(`[qte] Time! ${winner ? winner.name : 'nobody'} wins`);
+      return;
+    }
+    console.log(`[qte] Time! Tie between ${leaders.join(', ')} — SUDDEN DEATH`);
+    // sudden death plays as a one-stock match until one team is left; only
+    // this match's copy changes, the next match starts from the menu rules again
+    matchRules = { ...matchRules, mode: 'stock', timeLimit: 0 };
+    matchClock.startSuddenDeath();
+    for (const f of players) {
+      if (!leaders.includes(f.team)) {
+        f.state = 'defeat';
+        (f as any)._frozen = true;
+        if (f.anim && typeof f.anim.setState === 'function') f.anim.setState('defeat');
+        continue;
+      }
+      f.stocks = 1;
+      f.damagePercent = SUDDEN_DEATH_PERCENT;
+    }
+  }
+
+  // Versus matches end when only one team has players left (singleplayer
+  // has a single player slot and never ends here)
+  function checkLastTeamStanding() {
+    const players = [p1, p2, ...extraPlayers].filter(isMatchPlayer);
+    if (gameOver || players.length < 2) return;
+    const standing = players.filter((f) => f.state !== 'defeat');
+    const teams = new Set(standing.map((f) => f.team));
+    if (teams.size > 1) return;
+    gameOver = true;
+    winner = standing[0] || null;
+    console.log(`[qte] Last ${teamMode ? 'team' : 'player'} standing: ${winner ? winner.team : 'nobody'}`);
+  }
+
+  // One deterministic simulation step. Must not read wall-clock time or draw.
+  function simulateTick(dt: number) {
+    const mergedInput = gatherInput();
 
     // Debug input (only log once per press) - only if fighters are initialized
     if (p1 && p2) {
@@ -1710,6 +2279,132 @@ export function createGame(canvas: HTMLCanvasElement) {
       }
     }
 
+    // Keep the simulation roster in sync with the current match state
+    // (section transitions, NPC spawns and removals happen outside the sim).
+    sim.width = WIDTH;
+    sim.height = HEIGHT;
+    sim.fallThreshold = stage.fallThreshold;
+    sim.p1 = p1;
+    sim.p2 = p2;
+    sim.rules = matchRules;
+    sim.blastZone = matchClock.blastZone(WIDTH, HEIGHT);
+    sim.players = extraPlayers;
+    sim.npcs = grannyNpc ? [grannyNpc] : [];
+    sim.friendlyFire = teamMode && friendlyFire;
+    sim.controllers.clear();
+    const p2Controller = npcController || simpleAi;
+    if (p2 && p2Controller) sim.controllers.set(p2, p2Controller);
+    if (grannyNpc && grannyController) sim.controllers.set(grannyNpc, grannyController);
+    // Pause AI updates during section transitions to avoid NPC running off
+    // platforms while the heatmap/background are being reloaded.
+    sim.aiEnabled = !transitioning;
+
+    const result = sim.step(mergedInput, dt);
+
+    // auto-defeat and game over logic: KOs (stocks or stamina) are already
+    // applied to the fighters, the match ends on last team standing
+    for (const ev of result.events) {
+      if (ev.type === 'defeat') console.log(`[qte] ${ev.fighter} DEFEATED!`);
+      if (ev.type === 'fall') matchClock.recordFall(ev.fighter, ev.by);
+      if (ev.type === 'hit') screenShake.kick(ev.knockback);
+    }
+    checkLastTeamStanding();
+    if (!gameOver && matchClock.update(dt)) handleTimeUp();
+
+    // Section transition trigger: if P1 exits section_01 to the right, start transition to section_02
+    try {
+      if (!transitioning && currentSectionIdx === 1 && p1 && (p1.x > WIDTH)) {
+        startSectionTransition(2, 'right');
+      }
+    } catch (e) { /* defensive */ }
+
+    // NPC corpse timer: decrement and remove defeated NPC bodies after timeout
+    try {
+      if (p2 && typeof (p2 as any)._corpseTimer === 'number') {
+        (p2 as any)._corpseTimer = Math.max(0, (p2 as any)._corpseTimer - dt);
+        if ((p2 as any)._corpseTimer <= 0) {
+          // remove NPC and any controllers/AI associated with it
+          try { npcController = null; } catch (e) {}
+          try { simpleAi = null; } catch (e) {}
+          p2 = null;
+        }
+      }
+    } catch (e) {}
+
+    // Remove defeated NPCs immediately after their defeat animation finished
+    try {
+      if (p2 && (p2 as any).shouldRemove) {
+        console.log('[qte] Removing defeated NPC (P2) from game');
+        p2 = null;
+        // also clear any AI/controller references
+        try { simpleAi = null; } catch (e) {}
+        try { npcController = null; } catch (e) {}
+      }
+      if (grannyNpc && (grannyNpc as any).shouldRemove) {
+        console.log('[qte] Removing defeated Granny NPC from game');
+        grannyNpc = null;
+        // also clear Granny controller reference
+        try { grannyController = null; } catch (e) {}
+      }
+    } catch (e) {}
+
+    // Handle section transition fade and apply of next section
+    if (transitioning) {
+      const FADE_TIME = 0.4; // seconds
+      if (transitionPhase === 'fade_out') {
+        transitionOpacity = Math.min(1, transitionOpacity + dt / FADE_TIME);
+        // Once fully faded out, switch section (when data ready)
+        if (transitionOpacity >= 1 - 1e-6) {
+          // Ensure we have data and assets ready; if not start preloading and wait here at full black
+          if (pendingSectionData && !assetsReadyForSwitch && !pendingAssetsPromise) {
+            pendingAssetsPromise = switchSectionAssetsWithPreload(pendingSectionData).then(() => {
+              console.log(`[qte] 🔄 Assets ready - updating currentSectionIdx: ${currentSectionIdx} -> ${targetSectionIdx}`);
+              currentSectionIdx = targetSectionIdx;
+              assetsReadyForSwitch = true;
+
+              // Reposition fighters using new section spawn points
+              try {
+                // Seamless carry-over: keep relative positions
+                if (transitionDirection === 'right') {
+                  // entering from left edge of next section (slightly inside)
+                  if (p1) { p1.x = 4; }
+                  if (p2) { /* keep NPC where it was unless desired otherwise */ }
+                } else if (transitionDirection === 'left') {
+                  if (p1) { p1.x = WIDTH - 4; } // from right edge
+                }
+                if (p1) { p1.vx = 0; p1.vy = 0; p1.onGround = false; }
+                if (p2) { p2.vx = 0; p2.vy = 0; }
+              } catch (e) { /* defensive */ }
+
+              pendingSectionData = null;
+              pendingAssetsPromise = null;
+              transitionPhase = 'fade_in';
+            }).catch(() => {
+              // even on failure, attempt to proceed to avoid lock
+              assetsReadyForSwitch = true;
+              pendingAssetsPromise = null;
+              transitionPhase = 'fade_in';
+            });
+          }
+        }
+      } else if (transitionPhase === 'fade_in') {
+        transitionOpacity = Math.max(0, transitionOpacity - dt / FADE_TIME);
+        if (transitionOpacity <= 0 + 1e-6) {
+          transitionOpacity = 0;
+          transitionPhase = null;
+          transitioning = false;
+          // unfreeze fighters
+          try { if (p1) (p1 as any)._frozen = false; } catch (e) {}
+          try { if (p2) (p2 as any)._frozen = false; } catch (e) {}
+          try { if (grannyNpc) (grannyNpc as any)._frozen = false; } catch (e) {}
+        }
+      }
+    }
+
+  }
+
+  // Draw the current simulation state. frameDt is only used for purely cosmetic timers.
+  function renderFrame(frameDt: number) {
     // draw background using CSS-cover style (cover the canvas, preserve aspect)
     if (stageImg.complete && stageImg.naturalWidth > 0) {
       const imgW = stageImg.naturalWidth;
@@ -1739,339 +2434,16 @@ export function createGame(canvas: HTMLCanvasElement) {
     // NOTE: foreground overlay intentionally not drawn here anymore.
     // It will be rendered after characters/effects so it appears above them.
 
-    // update (if fighters are initialized)
-    if (p1) {
-      // Prevent updating defeated/frozen fighters
-      if (!(p1 as any)._frozen) p1.update(dt, mergedInput, projectiles, blasts);
-    }
-    if (p2) {
-      if (!(p2 as any)._frozen) p2.update(dt, mergedInput, projectiles, blasts);
-      // ensure newly spawned NPC has a short AI pause to avoid immediate fall-through
-      try { if ((p2 as any)._aiPauseTimer == null) (p2 as any)._aiPauseTimer = 0.25; } catch (e) {}
-    }
-
-    // Update Granny NPC
-    if (grannyNpc) {
-      if (!(grannyNpc as any)._frozen) grannyNpc.update(dt, mergedInput, projectiles, blasts);
-      // ensure newly spawned Granny has a short AI pause to avoid immediate fall-through
-      try { if ((grannyNpc as any)._aiPauseTimer == null) (grannyNpc as any)._aiPauseTimer = 0.25; } catch (e) {}
-    }
-
-    // Stage collision: prefer heatmap-based collision (if provided), fallback to AABB platforms
-    // Run collision/update logic for any existing fighter (p1, p2, and grannyNpc)
-    [p1, p2, grannyNpc].forEach((f) => {
-      if (!f) return;
-
-      // PHYSICS BUG FIX: If P2 is not on ground, not flying, and has zero vy,
-      // force gravity to kick in to prevent infinite hover state
-      if (f.name === 'P2' && !f.onGround && !f.flying && f.vy === 0) {
-        f.vy = 40; // Force downward velocity
-        // P2 hover bug fix applied (log removed to reduce spam)
-      }
-
-      // EMERGENCY TELEPORT: If P2 falls too far below screen, teleport back to safe position
-      if (f.name === 'P2' && f.y > HEIGHT + 500) {
-        const mainPlatTop = getMainPlatformTop();
-        f.y = mainPlatTop - f.h - 20; // Place slightly above platform
-        f.x = Math.max(100, Math.min(WIDTH - 100, f.x)); // Keep within screen bounds
-        f.vy = 0;
-        f.vx = 0;
-        f.onGround = false; // Let normal physics take over
-        console.error('[qte][physics] EMERGENCY TELEPORT: P2 fell too far, teleporting to safe position. new pos=', { x: f.x, y: f.y });
-      }
-      const prevFoot = f.y + f.h - f.vy * dt; // estimated previous foot y (canvas coords)
-      const foot = f.y + f.h;
-
-      // If player is holding down while standing on ground, enable drop-through
-      // (only when standing on a platform — conservatively allow for main platform)
-      try {
-        if (f.onGround && mergedInput[f.keys.down]) {
-          f.onGround = false;
-          // give a small downward nudge so the character starts to fall through
-          f.vy = Math.max(f.vy, 40);
-          // Debug: log when an entity (esp. NPC) intentionally drops through a platform
-          try {
-            // P2 drop-through triggered (log removed to reduce spam)
-          } catch (e) {}
-        }
-      } catch (e) { /* defensive: missing keys mapping -> ignore */ }
-
-      let landed = false;
-
-      // Heatmap-based collision (if heatmap is available)
-      if (heatmapCtx && heatmapCanvas && heatmapCanvas.width > 0 && stageImg && stageImg.naturalWidth > 0) {
-        try {
-          // Compute background draw parameters (same logic used when drawing the stage image)
-          const imgW = stageImg.naturalWidth;
-          const imgH = stageImg.naturalHeight;
-          const canvasRatio = WIDTH / HEIGHT;
-          const imgRatio = imgW / imgH;
-          let sx = 0, sy = 0, sw = imgW, sh = imgH;
-          if (imgRatio > canvasRatio) {
-            sw = Math.round(imgH * canvasRatio);
-            sx = Math.round((imgW - sw) * 0.5);
-          } else {
-            sh = Math.round(imgW / canvasRatio);
-            sy = Math.round((imgH - sh) * 0.5);
-          }
-
-          // Map a canvas point to the stage source image coordinates:
-          // srcX = sx + (canvasX / WIDTH) * sw
-          // srcY = sy + (canvasY / HEIGHT) * sh
-          const centerX = f.x + f.w * 0.5;
-          const srcX = Math.floor(sx + (centerX / WIDTH) * sw);
-          const prevSrcY = Math.floor(sy + (prevFoot / HEIGHT) * sh);
-          const currSrcY = Math.floor(sy + (foot / HEIGHT) * sh);
-
-          if (f.vy >= 0 && currSrcY >= prevSrcY) {
-            // Physics collision scan logging removed to reduce spam
-
-            // scan from previous foot to current foot in source-space for first solid pixel
-            for (let syi = prevSrcY; syi <= currSrcY; syi++) {
-              if (syi < 0 || syi >= heatmapCanvas.height || srcX < 0 || srcX >= heatmapCanvas.width) continue;
-              const d = heatmapCtx.getImageData(srcX, syi, 1, 1).data;
-              // consider nearly-black pixels with non-zero alpha as solid
-              // Enhanced solid detection: accept black, dark gray, or any non-transparent pixel
-      // (original: only nearly-black pixels, now: any visible pixel is considered solid)
-      const isSolid = d[3] > 128; // Any pixel with >50% opacity is solid
-              if (isSolid) {
-                // If player is holding down, skip landing (allow drop-through)
-                if (mergedInput[f.keys.down]) {
-                  // P2 drop-through: holding down, skipping landing (log removed)
-                  break;
-                }
-                // Map source y back to canvas coordinates
-                const canvasY = ((syi - sy) / sh) * HEIGHT;
-                if (typeof (f as any).landAt === 'function') (f as any).landAt(canvasY - f.h);
-                else { f.y = canvasY - f.h; f.vy = 0; f.onGround = true; }
-                // Debug: landing detected — log for NPCs to trace repeated falls
-                try {
-                  // P2 landing log removed to reduce console spam
-                } catch (e) {}
-                landed = true;
-                break;
-              }
-            }
-          }
-        } catch (e) {
-          // if sampling fails for any reason, fall back to platform AABB below
-          // eslint-disable-next-line no-console
-          console.warn('[qte] heatmap sampling failed, falling back to platform AABB', e);
-        }
-      }
-
-      // Fallback AABB platform collision (existing logic) if heatmap didn't produce a landing
-      if (!landed) {
-        // choose the lowest platform under the fighter to avoid landing on higher invisible plates
-        let candidate: any = null;
-        let candidateY = -Infinity;
-        for (const plat of stage.platforms) {
-          const withinX = f.x + f.w > plat.x && f.x < plat.x + plat.w;
-          // Consider this platform if the fighter is currently at/ below its top
-          // and previously was above or at it (crossing downwards)
-          if (withinX && foot >= plat.y && prevFoot <= plat.y && f.vy >= 0) {
-            if (plat.y > candidateY) {
-              candidate = plat;
-              candidateY = plat.y;
-            }
-          }
-        }
-        if (candidate) {
-          // If player is holding down, allow drop-through (skip landing)
-          if (!mergedInput[f.keys.down]) {
-            if (typeof (f as any).landAt === 'function') (f as any).landAt(candidate.y - f.h);
-            else { f.y = candidate.y - f.h; f.vy = 0; f.onGround = true; }
-          }
-        } else {
-          // EMERGENCY FALLBACK: Only create a virtual ground if a heatmap is
-          // present but sampling failed. If no heatmap is loaded at all we want
-          // entities to fall through (die) when off the mapped area.
-          if (heatmapReady) {
-            const mainPlatTop = getMainPlatformTop();
-            if (f.vy >= 0 && foot >= mainPlatTop && prevFoot <= mainPlatTop) {
-              if (typeof (f as any).landAt === 'function') (f as any).landAt(mainPlatTop - f.h);
-              else { f.y = mainPlatTop - f.h; f.vy = 0; f.onGround = true; }
-              console.warn('[qte][physics] EMERGENCY FALLBACK: Using virtual ground at main platform level for', f.name);
-            }
-          }
-        }
-      }
-
-      // Note: platform clamping removed — collision is now heatmap-driven.
-
-      // If player appears to be standing but there's no solid pixels under their feet
-      // according to the heatmap, make them fall through (handles removed legacy platforms)
-      try {
-        if (f.onGround) {
-          const footY = Math.floor(f.y + f.h + 1);
-          // sample several points across the foot to decide support
-          const samples = 3;
-          let supported = false;
-          const sampleResults = [];
-          for (let i = 0; i < samples; i++) {
-            const sx = Math.floor(f.x + 2 + (i / (samples - 1)) * Math.max(0, f.w - 4));
-            const isSupported = isSolidAtCanvasPoint(sx, footY);
-            sampleResults.push({ x: sx, supported: isSupported });
-            if (isSupported) { supported = true; break; }
-          }
-
-          // Ground support check logging removed to reduce spam
-
-          if (!supported) {
-            // no support: start falling
-            f.onGround = false;
-            f.vy = Math.max(f.vy, 40);
-            // Debug: no support under feet -> entity will fall. Log NPC-specific info.
-            try {
-              // P2 lost ground under feet (log removed to reduce spam)
-            } catch (e) {}
-          }
-        }
-      } catch (e) { /* defensive */ }
-
-      // Previously: check fall out of stage or fully off-screen (side-out)
-      // Side-out based death/stock loss when moving off the left/right of the canvas
-      // has been removed per task request. We still preserve bottom-fall handling
-      // (offBottom) to allow vertical outs to function.
-      const offBottom = f.y > stage.fallThreshold;
-      if (offBottom) {
-        const reason = 'fell off stage';
-        const other = (f === p1) ? p2 : p1;
-
-        // For P1: respawn and lose stock (normal behavior)
-        if (f.name === 'P1') {
-          console.log(`[qte] P1 ${reason} — respawning and losing a stock`);
-
-          // decrement stocks and handle defeat
-          f.stocks = (typeof f.stocks === 'number') ? Math.max(0, f.stocks - 1) : 0;
-          if (f.stocks <= 0) {
-            // game over for P1
-            f.state = 'defeat';
-            f.attacking1 = false;
-            f.attacking2 = false;
-            f.parrying = false;
-            f.ranging1 = false;
-            f.ranging2 = false;
-            f.vx = 0;
-            f.vy = 0;
-            if (f.anim && typeof f.anim.setState === 'function') f.anim.setState('defeat');
-            // In singleplayer we don't flip to a global game-over state; treat as P1 defeat animation only
-            if (!isSingleplayerMode()) {
-              gameOver = true;
-              winner = other || null;
-            }
-            console.log(`[qte] P1 has no stocks left — ${other?.name || 'unknown'} wins`);
-          } else {
-            // Respawn in current section, not always section_01
-            try {
-              const currentData = sectionCache[currentSectionIdx] || sectionCache[1] || null;
-              if (currentData) {
-                // switch assets to current section (or fallback to section_01)
-                applySectionAssets(currentData);
-                // Don't reset currentSectionIdx - stay in current section
-                console.log(`[qte] P1 respawned in section ${currentSectionIdx} (not resetting to section 1)`);
-                // P1 spawn
-                const sp1 = currentData.spawn_points && currentData.spawn_points.find((sp: any) => sp.name === 'player_start');
-                if (sp1) {
-                  const c1 = mapSectionToCanvas(sp1.x, sp1.y);
-                  c1.y -= 250;
-                  f.x = c1.x; f.y = c1.y;
-                  console.log(`[qte] P1 respawned at section ${currentSectionIdx} spawn point:`, sp1, '->', c1);
-                } else {
-                  const mainPlatTop = getMainPlatformTop();
-                  f.x = 100; f.y = mainPlatTop - f.h;
-                  console.log(`[qte] P1 respawned at fallback position in section ${currentSectionIdx}`);
-                }
-                // NPC spawn (if present and in section 1)
-                if (p2 && currentSectionIdx === 1) {
-                  const sp2 = currentData.spawn_points && currentData.spawn_points.find((sp: any) => sp.name === 'npc_spawn_1');
-                  if (sp2) {
-                    const c2 = mapSectionToCanvas(sp2.x, sp2.y);
-                    c2.y -= 250;
-                    p2.x = c2.x; p2.y = c2.y; p2.vx = 0; p2.vy = 0; p2.facing = -1;
-                    console.log(`[qte] P2 (NPC1) respawned at section ${currentSectionIdx} spawn point:`, sp2, '->', c2);
-                  }
-                } else if (currentSectionIdx > 1) {
-                  console.log(`[qte] P2 (NPC1) not respawned - current section ${currentSectionIdx} > 1`);
-                }
-              } else {
-                // If cache missing, fall back to a safe placement
-                const mainPlatTop = getMainPlatformTop();
-                f.x = 100; f.y = mainPlatTop - f.h;
-              }
-            } catch (e) {
-              const mainPlatTop = getMainPlatformTop();
-              f.x = 100; f.y = mainPlatTop - f.h;
-            }
-            f.vx = 0;
-            f.vy = 0;
-            f.damagePercent = 0;
-            f.launchedFromHit = false;
-            f.hurt = false;
-            f.hurtTimer = 0;
-            f.stunTimer = 0;
-          }
-        } else {
-          // For P2 (NPC): permanent defeat - no respawn (log suppressed)
-          f.state = 'defeat';
-          // Immediately remove defeated NPC from the scene so it is not drawn
-          try {
-            // clear AI/controllers
-            npcController = null;
-            simpleAi = null;
-            // if we're iterating over p1/p2, remove the p2 reference
-            if (f.name === 'P2') p2 = null;
-          } catch (e) {}
-          f.attacking1 = false;
-          f.attacking2 = false;
-          f.parrying = false;
-          f.ranging1 = false;
-          f.ranging2 = false;
-          f.vx = 0;
-          f.vy = 0;
-          f.maxHp = 0;
-          f.hp = 0;
-          if (f.anim && typeof f.anim.setState === 'function') f.anim.setState('defeat');
-          if (!isSingleplayerMode()) {
-            gameOver = true;
-            winner = p1 || null;
-          }
-          // P2 (NPC) defeated — log suppressed
-        }
-      }
-    });
-
-    // Section transition trigger: if P1 exits section_01 to the right, start transition to section_02
-    try {
-      if (!transitioning && currentSectionIdx === 1 && p1 && (p1.x > WIDTH)) {
-        startSectionTransition(2, 'right');
-      }
-    } catch (e) { /* defensive */ }
-
-    projectiles.forEach((pr) => pr.update(dt));
-    blasts.forEach((b) => b.update(dt));
-
-    // cleanup
-    for (let i = projectiles.length - 1; i >= 0; i--) if (!projectiles[i].alive) projectiles.splice(i, 1);
-    for (let i = blasts.length - 1; i >= 0; i--) if (!blasts[i].alive) blasts.splice(i, 1);
-
-    // NPC corpse timer: decrement and remove defeated NPC bodies after timeout
-    try {
-      if (p2 && typeof (p2 as any)._corpseTimer === 'number') {
-        (p2 as any)._corpseTimer = Math.max(0, (p2 as any)._corpseTimer - dt);
-        if ((p2 as any)._corpseTimer <= 0) {
-          // remove NPC and any controllers/AI associated with it
-          try { npcController = null; } catch (e) {}
-          try { simpleAi = null; } catch (e) {}
-          p2 = null;
-        }
-      }
-    } catch (e) {}
-
     // draw fighters and effects for any existing fighter
     if (p1 || p2 || grannyNpc) {
+      // world layer shakes on impacts, the HUD below stays put
+      screenShake.update(frameDt);
+      const shake = screenShake.offset();
+      ctx.save();
+      ctx.translate(shake.x, shake.y);
       if (p1) p1.draw();
       if (p2) p2.draw();
+      for (const f of extraPlayers) f.draw();
       if (grannyNpc) {
         // Debug: Check if Granny is within visible bounds
         const grannyVisible = grannyNpc.x >= -100 && grannyNpc.x <= WIDTH + 100 &&
@@ -2082,22 +2454,6 @@ export function createGame(canvas: HTMLCanvasElement) {
         grannyNpc.draw();
       }
 
-      // Remove defeated NPCs immediately after their defeat animation finished
-      try {
-        if (p2 && (p2 as any).shouldRemove) {
-          console.log('[qte] Removing defeated NPC (P2) from game');
-          p2 = null;
-          // also clear any AI/controller references
-          try { simpleAi = null; } catch (e) {}
-          try { npcController = null; } catch (e) {}
-        }
-        if (grannyNpc && (grannyNpc as any).shouldRemove) {
-          console.log('[qte] Removing defeated Granny NPC from game');
-          grannyNpc = null;
-          // also clear Granny controller reference
-          try { grannyController = null; } catch (e) {}
-        }
-      } catch (e) {}
       // If NPC has a pending attack effect, draw it above the NPC using atlas rects
       try {
         if (p2 && (p2 as any).pendingAttackEffect) {
@@ -2124,7 +2480,7 @@ export function createGame(canvas: HTMLCanvasElement) {
             // Only advance/draw when not waiting
             if (!pa.waitForAttack) {
               // advance local elapsed time and choose current frame
-              pa.elapsed = (pa.elapsed || 0) + dt;
+              pa.elapsed = (pa.elapsed || 0) + frameDt;
               const fps = pa.fps || 12;
               const frames = pa.frames || (pa.rects && pa.rects.length) || 1;
               const frameIdx = Math.min(frames - 1, Math.floor(pa.elapsed * fps));
@@ -2209,21 +2565,68 @@ export function createGame(canvas: HTMLCanvasElement) {
           ctx.drawImage(stageForegroundImg, sx, sy, sw, sh, 0, 0, WIDTH, HEIGHT);
         } catch (e) { /* defensive: ignore draw errors */ }
       }
+      ctx.restore();
+
+      // Super cinematic freeze: dim the stage and draw the super's fighter on top
+      if (sim.superFreeze > 0 && sim.superFighter) {
+        ctx.save();
+        ctx.fillStyle = 'rgba(0,0,0,0.55)';
+        ctx.fillRect(0, 0, WIDTH, HEIGHT);
+        ctx.restore();
+        try { sim.superFighter.draw(); } catch (e) { /* defensive */ }
+        ctx.font = 'bold 48px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillStyle = '#ffd23f';
+        ctx.fillText('SUPER!', sim.superFighter.x + sim.superFighter.w * 0.5, sim.superFighter.y - 20);
+        ctx.textAlign = 'left';
+      }
 
       // Draw percent bars (damage %) and stocks for P1
       if (p1) {
         drawPercentBar(ctx, 20, 20, p1.damagePercent, p1.stocks ?? 3, p1.color, "P1");
+        drawStatusIcons(ctx, 20, 20, p1, 1);
+        drawSuperMeter(ctx, 20, 44, p1);
         // Parry cooldown indicator for P1 (3s max)
-        drawParryCooldown(ctx, 20, 46, p1.parryCooldown ?? 0, 3, p1.color);
+        drawParryCooldown(ctx, 20, 56, p1.parryCooldown ?? 0, 3, p1.color);
+        drawShieldMeter(ctx, 20, 68, p1);
+        drawFlightGauge(ctx, 20, 76, p1);
       }
 
       // Draw percent bars (damage %) and stocks for P2 if present
       if (p2) {
         drawPercentBar(ctx, WIDTH - 220, 20, p2.damagePercent, p2.stocks ?? 3, p2.color, "P2");
+        drawStatusIcons(ctx, WIDTH - 220, 20, p2, -1);
+        drawSuperMeter(ctx, WIDTH - 220, 44, p2);
         // Parry cooldown indicator for P2
-        drawParryCooldown(ctx, WIDTH - 220, 46, p2.parryCooldown ?? 0, 3, p2.color);
+        drawParryCooldown(ctx, WIDTH - 220, 56, p2.parryCooldown ?? 0, 3, p2.color);
+        drawShieldMeter(ctx, WIDTH - 220, 68, p2);
+        drawFlightGauge(ctx, WIDTH - 220, 76, p2);
       }
 
+      // Match clock between the P1/P2 percent bars
+      const clockText = matchClock.format();
+      if (clockText) {
+        ctx.font = "bold 28px Arial";
+        ctx.textAlign = "center";
+        ctx.fillStyle = matchClock.suddenDeath || matchClock.remaining <= 10 ? "#ff5555" : "#fff";
+        ctx.fillText(clockText, WIDTH / 2, 42);
+        ctx.textAlign = "left";
+      }
+
+      // P3 bottom-left, P4 bottom-right
+      extraPlayers.forEach((f, i) => {
+        const hudX = i === 0 ? 20 : WIDTH - 220;
+        drawPercentBar(ctx, hudX, HEIGHT - 80, f.damagePercent, f.stocks ?? 3, PLAYER_COLORS[i + 2], f.name);
+        drawStatusIcons(ctx, hudX, HEIGHT - 80, f, i === 0 ? 1 : -1);
+        drawSuperMeter(ctx, hudX, HEIGHT - 56, f);
+        drawParryCooldown(ctx, hudX, HEIGHT - 44, f.parryCooldown ?? 0, 3, PLAYER_COLORS[i + 2]);
+        drawShieldMeter(ctx, hudX, HEIGHT - 32, f);
+        drawFlightGauge(ctx, hudX, HEIGHT - 24, f);
+        if (f.parrying) {
+          drawParryIndicator(ctx, f.x + f.w/2, f.y - 20, f.parryTimer, f.parryDurationDefault, 0, PLAYER_COLORS[i + 2]);
+        }
+      });
+
       // Draw parry indicators
       if (p1 && p1.parrying) {
         drawParryIndicator(ctx, p1.x + p1.w/2, p1.y - 20, p1.parryTimer, p1.parryDurationDefault, 0, p1.color); // No parry window
@@ -2234,62 +2637,13 @@ export function createGame(canvas: HTMLCanvasElement) {
     }
 
     // Draw game over screen only in non-singleplayer modes
-    if (!isSingleplayerMode() && gameOver && winner) {
+    // gameOver is only set in versus matches (see checkLastTeamStanding)
+    if (gameOver && winner) {
       drawGameOverScreen(ctx, WIDTH, HEIGHT, winner);
     }
 
-    // Handle section transition fade and apply of next section
+    // Draw section transition fade overlay
     if (transitioning) {
-      const FADE_TIME = 0.4; // seconds
-      if (transitionPhase === 'fade_out') {
-        transitionOpacity = Math.min(1, transitionOpacity + dt / FADE_TIME);
-        // Once fully faded out, switch section (when data ready)
-        if (transitionOpacity >= 1 - 1e-6) {
-          // Ensure we have data and assets ready; if not start preloading and wait here at full black
-          if (pendingSectionData && !assetsReadyForSwitch && !pendingAssetsPromise) {
-            pendingAssetsPromise = switchSectionAssetsWithPreload(pendingSectionData).then(() => {
-              console.log(`[qte] 🔄 Assets ready - updating currentSectionIdx: ${currentSectionIdx} -> ${targetSectionIdx}`);
-              currentSectionIdx = targetSectionIdx;
-              assetsReadyForSwitch = true;
-
-              // Reposition fighters using new section spawn points
-              try {
-                // Seamless carry-over: keep relative positions
-                if (transitionDirection === 'right') {
-                  // entering from left edge of next section (slightly inside)
-                  if (p1) { p1.x = 4; }
-                  if (p2) { /* keep NPC where it was unless desired otherwise */ }
-                } else if (transitionDirection === 'left') {
-                  if (p1) { p1.x = WIDTH - 4; } // from right edge
-                }
-                if (p1) { p1.vx = 0; p1.vy = 0; p1.onGround = false; }
-                if (p2) { p2.vx = 0; p2.vy = 0; }
-              } catch (e) { /* defensive */ }
-
-              pendingSectionData = null;
-              pendingAssetsPromise = null;
-              transitionPhase = 'fade_in';
-            }).catch(() => {
-              // even on failure, attempt to proceed to avoid lock
-              assetsReadyForSwitch = true;
-              pendingAssetsPromise = null;
-              transitionPhase = 'fade_in';
-            });
-          }
-        }
-      } else if (transitionPhase === 'fade_in') {
-        transitionOpacity = Math.max(0, transitionOpacity - dt / FADE_TIME);
-        if (transitionOpacity <= 0 + 1e-6) {
-          transitionOpacity = 0;
-          transitionPhase = null;
-          transitioning = false;
-          // unfreeze fighters
-          try { if (p1) (p1 as any)._frozen = false; } catch (e) {}
-          try { if (p2) (p2 as any)._frozen = false; } catch (e) {}
-          try { if (grannyNpc) (grannyNpc as any)._frozen = false; } catch (e) {}
-        }
-      }
-
       // Draw fade overlay
       try {
         ctx.save();
@@ -2299,253 +2653,10 @@ export function createGame(canvas: HTMLCanvasElement) {
         ctx.restore();
       } catch (e) { /* ignore */ }
     }
-
-    // collisions (only if fighters are initialized)
-    if (p1 && p2) {
-    const h1 = p1.hitbox(), h2 = p2.hitbox();
-    if (h1 && aabb(h1, p2.rect())) {
-      // Only trigger the attack effect once per attack animation
-      if (p1.attacking1 || p1.attacking2) {
-        const launchFlag = p1.attacking1 ? 'attack1Launched' : 'attack2Launched';
-        if (!(p1 as any)[launchFlag]) {
-          (p1 as any)[launchFlag] = true;
-          // Check if P2 can parry P1's attack (no window restriction)
-          if (p2.parrying && !p2.parryConsumed) {
-            // Successful parry - handle based on attack type
-            p2.parryConsumed = true;
-            p2.parryFreezeTimer = 0.15;
-            // If the attack was ranged (p1.ranging1||ranging2) -> negate damage
-            if (p1.ranging1 || p1.ranging2) {
-              // negate damage: do nothing to p2, maybe play feedback
-              console.log(`[qte] P2 successfully ranged-parried P1's ranged attack: damage negated`);
-            } else {
-              // attack parry: reflect damage+knockback back to attacker
-              console.log(`[qte] P2 successfully attack-parried P1's melee attack: reflecting`);
-              // reflect a smaller percent back
-              p1.receiveHit(20, 120, 1.0, (p2.x < p1.x) ? Math.PI : 0);
-            }
-          } else if (!p2.parrying || p2.parryConsumed) {
-            // No parry or parry already consumed - melee hit
-            const isSingleplayer = !!npcController;
-            if (isSingleplayer) {
-              // melee should subtract 1/3 of target max HP
-              try { if (p2 && typeof p2.takeDamage === 'function') p2.takeDamage(Math.ceil((p2.maxHp || 1) / 3)); } catch(e) {}
-            } else {
-              // default percent/knockback behavior
-              p2.receiveHit(30, 140, 0.6, (p1.x < p2.x) ? Math.PI : 0);
-            }
-          }
-        }
-      }
-    }
-    if (h2 && aabb(h2, p1.rect())) {
-      // Only trigger the attack effect once per attack animation
-      if (p2.attacking1 || p2.attacking2) {
-        const launchFlag = p2.attacking1 ? 'attack1Launched' : 'attack2Launched';
-        if (!(p2 as any)[launchFlag]) {
-          (p2 as any)[launchFlag] = true;
-          // Check if P1 can parry P2's attack (no window restriction)
-          if (p1.parrying && !p1.parryConsumed) {
-            // Successful parry - handle based on attack type
-            p1.parryConsumed = true;
-            p1.parryFreezeTimer = 0.15;
-            if (p2.ranging1 || p2.ranging2) {
-              console.log(`[qte] P1 successfully ranged-parried P2's ranged attack: damage negated`);
-            } else {
-              console.log(`[qte] P1 successfully attack-parried P2's melee attack: reflecting`);
-              p2.receiveHit(20, 120, 1.0, (p1.x < p2.x) ? Math.PI : 0);
-            }
-          } else if (!p1.parrying || p1.parryConsumed) {
-            // No parry or parry already consumed - melee hit
-            const isSingleplayer = !!npcController;
-            if (isSingleplayer) {
-              // NPC attack: subtract 1/3 of P1 max HP per hit
-              try { if (p1 && typeof p1.takeDamage === 'function') p1.takeDamage(Math.ceil((p1.maxHp || 1) / 3)); } catch(e) {}
-            } else {
-              p1.receiveHit(30, 140, 0.6, (p2.x < p1.x) ? Math.PI : 0);
-            }
-          }
-        }
-      }
-    }
-
-    for (const pr of projectiles) {
-      if (!pr.alive) continue;
-      // Ground / platform collision for projectiles (heatmap or platform AABB)
-      try {
-        const r = pr.rect();
-        const centerX = r.x + r.w * 0.5;
-        const bottomY = r.y + r.h;
-        if (isSolidAtCanvasPoint(centerX, bottomY)) {
-          // spawn blast at impact point and kill projectile
-          let blastImage = null;
-          let blastRects = null;
-          let blastFrames = 4;
-          if (pr.owner && pr.owner.name === 'P1' && globalAtlas1 && globalAtlas1.animations.blast) {
-            blastImage = globalAtlas1.image;
-            blastRects = globalAtlas1.animations.blast.frames;
-            blastFrames = globalAtlas1.animations.blast.frames.length;
-          } else if (pr.owner && pr.owner.name === 'P2' && globalAtlas2 && globalAtlas2.animations.blast) {
-            blastImage = globalAtlas2.image;
-            blastRects = globalAtlas2.animations.blast.frames;
-            blastFrames = globalAtlas2.animations.blast.frames.length;
-          }
-          blasts.push(new Blast(centerX, bottomY, pr.owner && pr.owner.name === 'P1' ? P1_BLAST_SRC : P2_BLAST_SRC, blastFrames, blastImage, blastRects));
-          pr.alive = false;
-          continue;
-        }
-      } catch (e) { /* defensive */ }
-      if (!pr.alive) continue;
-      if (pr.owner !== p1 && aabb(pr.rect(), p1.rect())) {
-        // Check if P1 can parry the projectile (no window restriction)
-        if (p1.parrying && !p1.parryConsumed) {
-          // Successful parry - no damage, stun attacker
-          p1.parryConsumed = true;
-          p1.parryFreezeTimer = 0.15;
-          pr.owner.stunTimer = 1.2;
-          pr.alive = false;
-          console.log(`[qte] P1 successfully parried P2's projectile! (parry window active)`);
-        } else if (!p1.parrying || p1.parryConsumed) {
-          // No parry or parry already consumed - apply HP damage for ranged hit
-          try {
-            const hpDamage = Math.max(1, Math.ceil((p1.maxHp || 1) / 12));
-            if (typeof p1.takeDamage === 'function') p1.takeDamage(hpDamage);
-          } catch (e) {}
-          // Additionally apply percent/knockback when projectile carries knockback
-          if (pr.applyKnockbackOnHit) {
-            p1.receiveHit(8, 90, 0.9, (pr.vx < 0) ? Math.PI : 0);
-          } else {
-            // fallback: small percent increase
-            p1.damagePercent += 8;
-            console.log(`[qte] ${p1.name} percent increased to ${p1.damagePercent}`);
-          }
-          pr.alive = false;
-        }
-        // Debug: log hit and blast chosen
-        // eslint-disable-next-line no-console
-        console.debug("[qte] projectile hit P1", { projectileSrc: pr.anim.animations["fly"]?.src, blastSrc: P2_BLAST_SRC });
-        // Use atlas for blast if available
-        let blastImage = null;
-        let blastRects = null;
-        let blastFrames = 4;
-
-        if (globalAtlas2 && globalAtlas2.animations.blast) {
-          blastImage = globalAtlas2.image;
-          blastRects = globalAtlas2.animations.blast.frames;
-          blastFrames = globalAtlas2.animations.blast.frames.length;
-          console.log(`[qte] Blast using atlas frames from cyboard`);
-        } else {
-          console.log(`[qte] Blast: No atlas frames for 'blast' in cyboard, falling back to individual image.`);
-        }
-
-        // spawn blast at projectile impact position (use projectile rect if available)
-        try {
-          const r = pr.rect();
-          const blastX = r.x + r.w * 0.5;
-          const blastY = r.y + r.h * 0.5;
-          blasts.push(new Blast(blastX, blastY, P2_BLAST_SRC, blastFrames, blastImage, blastRects));
-        } catch (e) {
-          blasts.push(new Blast(p1.x + p1.w * 0.5, p1.y + p1.h * 0.5, P2_BLAST_SRC, blastFrames, blastImage, blastRects));
-        }
-      }
-      if (pr.owner !== p2 && aabb(pr.rect(), p2.rect())) {
-        // Check if P2 can parry the projectile (no window restriction)
-        if (p2.parrying && !p2.parryConsumed) {
-          // Successful parry - no damage, stun attacker
-          p2.parryConsumed = true;
-          p2.parryFreezeTimer = 0.15;
-          pr.owner.stunTimer = 1.2;
-          pr.alive = false;
-          console.log(`[qte] P2 successfully parried P1's projectile! (parry window active)`);
-        } else if (!p2.parrying || p2.parryConsumed) {
-          // No parry or parry already consumed - apply HP damage for ranged hit
-          try {
-            const hpDamage = Math.max(1, Math.ceil((p2.maxHp || 1) / 12));
-            if (typeof p2.takeDamage === 'function') p2.takeDamage(hpDamage);
-          } catch (e) {}
-          // Additionally apply percent/knockback when projectile carries knockback
-          if (pr.applyKnockbackOnHit) {
-            p2.receiveHit(8, 90, 0.9, (pr.vx < 0) ? Math.PI : 0);
-          } else {
-            // fallback: small percent increase
-            p2.damagePercent += 8;
-            console.log(`[qte] ${p2.name} percent increased to ${p2.damagePercent}`);
-          }
-          pr.alive = false;
-        }
-        // Debug: log hit and blast chosen
-        // eslint-disable-next-line no-console
-        console.debug("[qte] projectile hit P2", { projectileSrc: pr.anim.animations["fly"]?.src, blastSrc: P1_BLAST_SRC });
-        // Use atlas for blast if available
-        let blastImage = null;
-        let blastRects = null;
-        let blastFrames = 4;
-
-        if (globalAtlas1 && globalAtlas1.animations.blast) {
-          blastImage = globalAtlas1.image;
-          blastRects = globalAtlas1.animations.blast.frames;
-          blastFrames = globalAtlas1.animations.blast.frames.length;
-          console.log(`[qte] Blast using atlas frames from ninja`);
-        } else {
-          console.log(`[qte] Blast: No atlas frames for 'blast' in ninja, falling back to individual image.`);
-        }
-
-        try {
-          const r = pr.rect();
-          const blastX = r.x + r.w * 0.5;
-          const blastY = r.y + r.h * 0.5;
-          blasts.push(new Blast(blastX, blastY, P1_BLAST_SRC, blastFrames, blastImage, blastRects));
-        } catch (e) {
-          blasts.push(new Blast(p2.x + p2.w * 0.5, p2.y + p2.h * 0.5, P1_BLAST_SRC, blastFrames, blastImage, blastRects));
-        }
-      }
-    }
-
-    // auto-defeat and game over logic
-    if (p1.isDefeated() && p1.state !== "defeat") {
-      p1.state = "defeat";
-      p1.attacking1 = false;
-      p1.attacking2 = false;
-      p1.parrying = false;
-      p1.ranging1 = false;
-      p1.ranging2 = false;
-      p1.vx = 0;
-      p1.vy = 0;
-      p1.anim.setState("defeat");
-      // Only set global game-over in non-singleplayer modes
-      if (!isSingleplayerMode()) {
-        gameOver = true;
-        winner = p2;
-      }
-      console.log(`[qte] P1 DEFEATED! P2 WINS!`);
-    }
-    if (p2.isDefeated() && p2.state !== "defeat") {
-      p2.state = "defeat";
-      p2.attacking1 = false;
-      p2.attacking2 = false;
-      p2.parrying = false;
-      p2.ranging1 = false;
-      p2.ranging2 = false;
-      p2.vx = 0;
-      p2.vy = 0;
-      p2.anim.setState("defeat");
-      if (!isSingleplayerMode()) {
-        gameOver = true;
-        winner = p1;
-      }
-      console.log(`[qte] P2 DEFEATED! P1 WINS!`);
-      }
-    }
-
-    requestAnimationFrame(loop);
   }
 
   requestAnimationFrame(loop);
 
-  function aabb(a: { x: number; y: number; w: number; h: number }, b: { x: number; y: number; w: number; h: number }) {
-    return !(a.x + a.w < b.x || b.x + b.w < a.x || a.y + a.h < b.y || b.y + b.h < a.y);
-  }
-
   function drawHealthBar(ctx: CanvasRenderingContext2D, x: number, y: number, currentHp: number, maxHp: number, color: string, playerName: string) {
     const barWidth = 80;
     const barHeight = 20;
@@ -2602,7 +2713,22 @@ export function createGame(canvas: HTMLCanvasElement) {
     ctx.strokeRect(x, y, barWidth, barHeight);
     ctx.fillStyle = "#fff";
     ctx.font = "12px Arial";
-    ctx.fillText(`${playerName} ${Math.round(percent)}% (${stocks})`, x, y - 5);
+    // time mode shows the KO score instead of stocks
+    const score = matchClock.score(playerName);
+    const tail = matchRules.mode === 'time' ? `[${score >= 0 ? '+' : ''}${score}]` : `(${stocks})`;
+    ctx.fillText(`${playerName} ${Math.round(percent)}% ${tail}`, x, y - 5);
+
+    // Combo counter next to the attacker's bar: every hit after the first
+    // landed while the target was still in hitstun (a true combo)
+    const combo = sim.combos.comboOf(playerName);
+    if (combo && combo.hits >= 2) {
+      ctx.globalAlpha = combo.active ? 1 : 0.5;
+      ctx.fillStyle = "#ffd23f";
+      ctx.font = "bold 14px Arial";
+      const dealt = usesHp(matchRules) ? `${combo.damage} HP` : `${Math.round(combo.damage)}%`;
+      ctx.fillText(`${combo.hits} HIT COMBO  ${dealt}`, x, y + barHeight + 56);
+      ctx.globalAlpha = 1;
+    }
   }
 
   function drawParryCooldown(ctx: CanvasRenderingContext2D, x: number, y: number, cooldown: number, max: number, color: string) {
@@ -2623,6 +2749,91 @@ export function createGame(canvas: HTMLCanvasElement) {
     ctx.fillText(text, x + w + 6, y + h);
   }
 
+  // Status effect icons beside a percent bar at (x, y): to its right for
+  // dir = 1, to its left for dir = -1. The ring shows the time left.
+  function drawStatusIcons(ctx: CanvasRenderingContext2D, x: number, y: number, f: Fighter, dir: 1 | -1) {
+    const size = 18;
+    let cx = dir > 0 ? x + 160 + 8 + size / 2 : x - 8 - size / 2;
+    const cy = y + 10;
+    for (const e of f.status.active()) {
+      const style = STATUS_STYLES[e.kind];
+      ctx.fillStyle = '#222';
+      ctx.beginPath();
+      ctx.arc(cx, cy, size / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.strokeStyle = style.color;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(cx, cy, size / 2 - 1.5, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * Math.max(0, e.remaining / e.duration));
+      ctx.stroke();
+      ctx.fillStyle = style.color;
+      ctx.font = 'bold 10px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(style.label, cx, cy + 4);
+      ctx.textAlign = 'left';
+      cx += dir * (size + 4);
+    }
+  }
+
+  // Super meter under the percent bar; flashes "SUPER" once a super can be afforded
+  function drawSuperMeter(ctx: CanvasRenderingContext2D, x: number, y: number, f: Fighter) {
+    const w = 160;
+    const h = 8;
+    ctx.fillStyle = '#222';
+    ctx.fillRect(x, y, w, h);
+    const pct = Math.max(0, Math.min(1, f.meter / MAX_METER));
+    const ready = f.meter >= f.moves.super.cost;
+    ctx.fillStyle = ready ? '#ffd23f' : 'rgba(230,170,40,0.85)';
+    ctx.fillRect(x, y, w * pct, h);
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, w, h);
+    if (ready && Math.floor(performance.now() / 250) % 2 === 0) {
+      ctx.fillStyle = '#ffd23f';
+      ctx.font = 'bold 10px Arial';
+      ctx.fillText('SUPER', x + w + 6, y + h);
+    }
+  }
+
+  // Shield health under the parry cooldown; flashes "BROKEN" during a shield break
+  function drawShieldMeter(ctx: CanvasRenderingContext2D, x: number, y: number, f: Fighter) {
+    const w = 160;
+    const h = 5;
+    ctx.fillStyle = '#222';
+    ctx.fillRect(x, y, w, h);
+    const pct = Math.max(0, Math.min(1, f.shieldHealth / MAX_SHIELD));
+    ctx.fillStyle = f.shieldBreakTimer > 0 ? 'rgba(200,50,50,0.9)' : f.shielding ? 'rgba(120,200,255,1)' : 'rgba(60,140,220,0.9)';
+    ctx.fillRect(x, y, w * pct, h);
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, w, h);
+    if (f.shieldBreakTimer > 0) {
+      ctx.fillStyle = '#ff5555';
+      ctx.font = '10px Arial';
+      ctx.fillText('BROKEN', x + w + 6, y + h + 2);
+    }
+  }
+
+  // Flight stamina under the shield meter (flying characters only); "TIRED" during a helpless fall
+  function drawFlightGauge(ctx: CanvasRenderingContext2D, x: number, y: number, f: Fighter) {
+    if (f.movement.dodge !== 'fly') return;
+    const w = 160;
+    const h = 4;
+    ctx.fillStyle = '#222';
+    ctx.fillRect(x, y, w, h);
+    const pct = Math.max(0, Math.min(1, f.flyStamina / f.flyCapacity));
+    ctx.fillStyle = f.helpless ? 'rgba(200,50,50,0.9)' : f.flying ? 'rgba(140,255,160,1)' : 'rgba(80,200,110,0.9)';
+    ctx.fillRect(x, y, w * pct, h);
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, w, h);
+    if (f.helpless) {
+      ctx.fillStyle = '#ff5555';
+      ctx.font = '10px Arial';
+      ctx.fillText('TIRED', x + w + 6, y + h + 2);
+    }
+  }
+
   function drawHeart(ctx: CanvasRenderingContext2D, x: number, y: number, size: number) {
     ctx.beginPath();
     ctx.moveTo(x + size/2, y + size);
@@ -2692,12 +2903,16 @@ export function createGame(canvas: HTMLCanvasElement) {
     // Winner text
     ctx.fillStyle = winner.color;
     ctx.font = "bold 36px Arial";
-    ctx.fillText(`${winner.name} WINS!`, width / 2, height / 2);
+    const winnerLabel = teamMode ? `TEAM ${winner.team === 'team1' ? 1 : 2}` : winner.name;
+    ctx.fillText(`${winnerLabel} WINS!`, width / 2, height / 2);
+    ctx.fillStyle = "#fff";
+    ctx.font = "24px Arial";
+    ctx.fillText(describeResult(winner, matchRules), width / 2, height / 2 + 36);
 
     // Restart instruction
     ctx.fillStyle = "#ccc";
     ctx.font = "24px Arial";
-    ctx.fillText("Press F5 to restart", width / 2, height / 2 + 60);
+    ctx.fillText("Press F5 to restart", width / 2, height / 2 + 80);
 
     // Reset text alignment
     ctx.textAlign = "left";
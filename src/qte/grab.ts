@@ -0,0 +1,55 @@
+// Grabs and throws. A grab reaches a short distance in front of the fighter
+// and beats shields and parries. The grabbed fighter is held until the
+// grabber picks a throw by holding a direction (or the hold runs out, which
+// ends in a forward throw). Throws deal damage through Fighter.receiveHit
+// like any other hit.
+
+import type { DirectionInput } from "./launchPhysics";
+
+export type ThrowDirection = "forward" | "back" | "up" | "down";
+
+export interface ThrowDef {
+  /** percent dealt */
+  damage: number;
+  baseKB: number;
+  strength: number;
+  /** launch angle in degrees away from the thrower (0 = straight, 90 = up) */
+  angle: number;
+}
+
+/** reach of the grab box beyond the fighter's body (px) */
+export const GRAB_RANGE = 40;
+/** seconds the grab box is out after pressing grab */
+export const GRAB_ACTIVE_TIME = 0.1;
+/** total seconds of a grab including the recovery after a whiff */
+export const GRAB_WHIFF_TIME = 0.4;
+/** seconds an opponent can be held before the grabber throws forward */
+export const GRAB_HOLD_TIME = 1.0;
+// distance of the held fighter in front of the grabber, in sprite widths
+export const GRAB_HOLD_OFFSET = 0.4;
+
+export const THROWS: Record<ThrowDirection, ThrowDef> = {
+  forward: { damage: 8, baseKB: 140, strength: 1.0, angle: 35 },
+  // the strongest throw: swings the opponent behind the grabber
+  back: { damage: 10, baseKB: 150, strength: 1.1, angle: 40 },
+  up: { damage: 7, baseKB: 130, strength: 1.0, angle: 85 },
+  // weak pop-up for follow-ups
+  down: { damage: 6, baseKB: 80, strength: 0.7, angle: 70 },
+};
+
+/** Throw picked by the held direction (relative to facing), or null for none. */
+export function throwDirection(held: DirectionInput, facing: number): ThrowDirection | null {
+  if (held.y > 0) return "up";
+  if (held.y < 0) return "down";
+  if (held.x !== 0) return held.x * facing > 0 ? "forward" : "back";
+  return null;
+}
+
+/**
+ * Angle to pass to Fighter.receiveHit for a throw that pushes the target in
+ * `push` direction (+1 = right); mirrored the same way as melee hitboxes.
+ */
+export function throwAngle(angleDeg: number, push: number): number {
+  const rad = (angleDeg * Math.PI) / 180;
+  return push > 0 ? Math.PI - rad : rad;
+}
@@ -0,0 +1,44 @@
+// Hitstop (hitlag) and screen shake. On impact both fighters freeze for a
+// few simulation ticks scaled by the damage dealt, and the camera shakes
+// with an amplitude scaled by the knockback from Fighter.receiveHit.
+
+/** freeze for a successful parry (was a flat 0.15s parryFreezeTimer) */
+export const PARRY_HITSTOP_FRAMES = 9;
+export const MAX_HITSTOP_FRAMES = 20;
+
+/** Hitstop length in simulation ticks for a hit dealing `damage` percent. */
+export function hitstopFrames(damage: number): number {
+  return Math.min(MAX_HITSTOP_FRAMES, Math.floor(4 + Math.max(0, damage) / 3));
+}
+
+// shake pixels per point of knockback, the cap and how fast it fades (px/s)
+const SHAKE_PER_KB = 0.04;
+const MAX_SHAKE = 18;
+const SHAKE_DECAY = 60;
+
+/**
+ * Render-side camera shake. Not part of the simulation: it is kicked from
+ * hit events and advanced with the frame time.
+ */
+export class ScreenShake {
+  amplitude = 0;
+  private t = 0;
+
+  kick(knockback: number) {
+    this.amplitude = Math.min(MAX_SHAKE, Math.max(this.amplitude, knockback * SHAKE_PER_KB));
+  }
+
+  update(dt: number) {
+    this.t += dt;
+    this.amplitude = Math.max(0, this.amplitude - SHAKE_DECAY * dt);
+  }
+
+  /** Current camera offset in pixels (deterministic wobble, no Math.random). */
+  offset(): { x: number; y: number } {
+    if (this.amplitude <= 0) return { x: 0, y: 0 };
+    return {
+      x: Math.sin(this.t * 71) * this.amplitude,
+      y: Math.cos(this.t * 53) * this.amplitude * 0.6,
+    };
+  }
+}
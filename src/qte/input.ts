@@ -10,6 +10,8 @@ export interface KeyBindings {
   ranged2: string;
   transform?: string;
   dodge?: string;
+  shield?: string;
+  grab?: string;
 }
 
 export interface InputState {
@@ -29,6 +31,8 @@ export const P1_KEYS: KeyBindings = {
   ranged2: "KeyY",    // L2
   transform: "KeyF",  // Square (□)
   dodge: "KeyG",      // Circle (○)
+  shield: "KeyC",     // L3
+  grab: "KeyV",       // R3
 };
 
 export const P2_KEYS: KeyBindings = {
@@ -43,8 +47,53 @@ export const P2_KEYS: KeyBindings = {
   ranged2: "Numpad5", // L2
   transform: "Numpad6", // Square (□)
   dodge: "Numpad7",   // Circle (○)
+  shield: "Numpad0",  // L3
+  grab: "NumpadEnter", // R3
 };
 
+export const P3_KEYS: KeyBindings = {
+  left: "KeyJ",
+  right: "KeyL",
+  up: "KeyI",
+  down: "KeyK",
+  attack1: "KeyU",        // R1
+  attack2: "KeyO",        // R2
+  parry: "KeyP",          // Triangle (△)
+  ranged1: "BracketLeft", // L1
+  ranged2: "BracketRight",// L2
+  transform: "Semicolon", // Square (□)
+  dodge: "Quote",         // Circle (○)
+  shield: "KeyM",         // L3
+  grab: "Comma",           // R3
+};
+
+export const P4_KEYS: KeyBindings = {
+  left: "Delete",
+  right: "PageDown",
+  up: "Home",
+  down: "End",
+  attack1: "Numpad8",        // R1
+  attack2: "Numpad9",        // R2
+  parry: "NumpadAdd",        // Triangle (△)
+  ranged1: "NumpadSubtract", // L1
+  ranged2: "NumpadMultiply", // L2
+  transform: "NumpadDivide", // Square (□)
+  dodge: "NumpadDecimal",    // Circle (○)
+  shield: "Insert",          // L3
+  grab: "PageUp",            // R3
+};
+
+/** Maximum number of local players (gamepads 0-3 / four keyboard layouts). */
+export const MAX_PLAYERS = 4;
+
+/** Bindings per player slot; index 0 = P1. Gamepad N drives slot N. */
+export const PLAYER_KEYS: KeyBindings[] = [P1_KEYS, P2_KEYS, P3_KEYS, P4_KEYS];
+
+/** Every key code used by a binding set (for merging keyboard + gamepad state). */
+export function bindingCodes(keys: KeyBindings): string[] {
+  return Object.values(keys).filter((k): k is string => !!k);
+}
+
 /**
  * Returns a fresh InputState object filled from Keyboard events.
  */
@@ -66,12 +115,10 @@ export function createKeyboardListener(target: HTMLElement = document.body) {
  * PlayStation Controller Layout:
  * X (0) = Jump, Triangle (3) = Parry, Square (2) = Transform, Circle (1) = Dodge
  * L1 (4) = Ranged1, L2 (6) = Ranged2, R1 (5) = Attack1, R2 (7) = Attack2
+ * L3 (10) = Shield (hold), R3 (11) = Grab
  * D-Pad (12-15) = Movement, Left Stick (0,1) = Movement
  */
-export function readGamepadsUnified(
-  p1Bindings: KeyBindings,
-  p2Bindings: KeyBindings
-): InputState {
+export function readGamepadsUnified(...bindings: KeyBindings[]): InputState {
   const pads = (navigator.getGamepads && navigator.getGamepads()) || [];
   const inputFromPads: InputState = {};
   const dead = 0.35;
@@ -94,6 +141,8 @@ export function readGamepadsUnified(
     const ranged2 = !!(b[6] && b[6].pressed);  // L2
     const transform = !!(b[2] && b[2].pressed); // Square (□)
     const dodge = !!(b[1] && b[1].pressed);    // Circle (○)
+    const shield = !!(b[10] && b[10].pressed); // L3
+    const grab = !!(b[11] && b[11].pressed);   // R3
 
     // Map to input state
     if (left) inputFromPads[keys.left] = true;
@@ -107,8 +156,12 @@ export function readGamepadsUnified(
     if (ranged2) inputFromPads[keys.ranged2] = true;
     if (transform && keys.transform) inputFromPads[keys.transform] = true;
     if (dodge && keys.dodge) inputFromPads[keys.dodge] = true;
+    if (shield && keys.shield) inputFromPads[keys.shield] = true;
+    if (grab && keys.grab) inputFromPads[keys.grab] = true;
+  }
+  // gamepad N drives the Nth binding set (P1..P4)
+  for (let i = 0; i < Math.min(bindings.length, MAX_PLAYERS); i++) {
+    mapPadToKeys(pads[i] || null, bindings[i]);
   }
-  mapPadToKeys(pads[0], p1Bindings);
-  mapPadToKeys(pads[1], p2Bindings);
   return inputFromPads;
 }
@@ -0,0 +1,162 @@
+// Per-fighter input buffer. Fighter.update records the held state of every
+// KeyBindings action once per simulation frame; transitions become
+// frame-stamped pressed/released events. On top of the history:
+// - buffered presses: a press made while the fighter couldn't act (attack
+//   recovery, hitstop, landing) is replayed for INPUT_BUFFER_FRAMES frames
+//   until the action it starts consumes it;
+// - motion commands in numpad notation relative to the fighter's facing
+//   (6 = forward, 4 = back, 2 = down, 3 = down-forward, 5 = neutral), e.g.
+//   "236" + attack1 for a command special or "656" for a double-tap dash.
+
+import type { KeyBindings, InputState } from "./input";
+
+export type InputAction = keyof KeyBindings;
+
+export interface InputEvent {
+  action: InputAction;
+  /** true = went down, false = released */
+  pressed: boolean;
+  frame: number;
+}
+
+export interface MotionCommand {
+  /** directions in numpad notation relative to facing, oldest first */
+  motion: string;
+  /** button pressed at the end of the motion; without one the last direction completes it */
+  button?: InputAction;
+  /** frames from the first direction of the motion to its end */
+  window: number;
+}
+
+/** frames a press stays buffered (~100ms) */
+export const INPUT_BUFFER_FRAMES = 6;
+/** frames of events kept */
+export const INPUT_HISTORY_FRAMES = 60;
+/** actions whose presses are replayed while the fighter can't act yet */
+export const BUFFERED_ACTIONS: InputAction[] = ["attack1", "attack2", "ranged1", "parry", "grab"];
+/** double tap forward (towards the direction the first tap turned the fighter) */
+export const DASH_COMMAND: MotionCommand = { motion: "656", window: 15 };
+
+const ACTIONS: InputAction[] = [
+  "left", "right", "up", "down", "attack1", "attack2", "parry", "ranged1", "ranged2", "transform", "dodge", "shield", "grab",
+];
+
+interface DirectionEntry {
+  frame: number;
+  /** 1 = right, -1 = left */
+  x: number;
+  /** 1 = up, -1 = down */
+  y: number;
+}
+
+// numpad digit of a held direction seen from a fighter facing `facing`
+function numpad(d: DirectionEntry, facing: number): string {
+  return String(5 + d.x * (facing < 0 ? -1 : 1) + 3 * d.y);
+}
+
+export class InputBuffer {
+  /** frame of the latest record() (-1 before the first) */
+  frame = -1;
+  /** pressed/released events of the last INPUT_HISTORY_FRAMES frames, oldest first */
+  events: InputEvent[] = [];
+  private held: Partial<Record<InputAction, boolean>> = {};
+  private consumed = new Set<InputEvent>();
+  // held direction whenever it changed, oldest first
+  private directions: DirectionEntry[] = [];
+
+  constructor(private keys: Partial<Record<InputAction, string>>) {}
+
+  /** Record one frame of held input. */
+  record(input: InputState) {
+    this.frame++;
+    for (const action of ACTIONS) {
+      const code = this.keys[action];
+      if (!code) continue;
+      const down = !!input[code];
+      if (down === !!this.held[action]) continue;
+      this.held[action] = down;
+      this.events.push({ action, pressed: down, frame: this.frame });
+    }
+    const x = (this.held.right ? 1 : 0) - (this.held.left ? 1 : 0);
+    const y = (this.held.up ? 1 : 0) - (this.held.down ? 1 : 0);
+    const last = this.directions[this.directions.length - 1];
+    if (!last || last.x !== x || last.y !== y) this.directions.push({ frame: this.frame, x, y });
+
+    const oldest = this.frame - INPUT_HISTORY_FRAMES;
+    while (this.events.length > 0 && this.events[0].frame < oldest) this.consumed.delete(this.events.shift()!);
+    // keep the entry still in effect at the oldest frame
+    while (this.directions.length > 1 && this.directions[1].frame <= oldest) this.directions.shift();
+  }
+
+  /** True on the frame `action` went down. */
+  pressed(action: InputAction): boolean {
+    return this.lastPress(action)?.frame === this.frame;
+  }
+
+  /** True on the frame `action` was let go. */
+  released(action: InputAction): boolean {
+    return this.events.some((e) => e.action === action && !e.pressed && e.frame === this.frame);
+  }
+
+  /** Latest press of `action` within `window` frames that no action has used yet. */
+  buffered(action: InputAction, window: number = INPUT_BUFFER_FRAMES): InputEvent | null {
+    const press = this.lastPress(action);
+    return press && !this.consumed.has(press) && this.frame - press.frame < window ? press : null;
+  }
+
+  /** Mark the latest press of `action` as used so it isn't replayed. */
+  consume(action: InputAction) {
+    const press = this.lastPress(action);
+    if (press) this.consumed.add(press);
+  }
+
+  /** `input` with the buffered presses of BUFFERED_ACTIONS held again (a copy when anything changed). */
+  applyBuffered(input: InputState): InputState {
+    let out = input;
+    for (const action of BUFFERED_ACTIONS) {
+      const code = this.keys[action];
+      if (!code || input[code] || !this.buffered(action)) continue;
+      if (out === input) out = { ...input };
+      out[code] = true;
+    }
+    return out;
+  }
+
+  /**
+   * Whether `command` was just completed by a fighter facing `facing`. The
+   * directions may have others in between (2, 1, 3, 6 matches 236); a
+   * matched button press is consumed.
+   */
+  matchMotion(command: MotionCommand, facing: number): boolean {
+    const digits = command.motion;
+    let end = this.frame;
+    let press: InputEvent | null = null;
+    if (command.button) {
+      press = this.buffered(command.button);
+      if (!press) return false;
+      end = press.frame;
+    } else {
+      // a plain motion completes on the frame its last direction is entered
+      const last = this.directions[this.directions.length - 1];
+      if (!last || last.frame !== this.frame || numpad(last, facing) !== digits[digits.length - 1]) return false;
+    }
+    let i = digits.length - 1;
+    for (let d = this.directions.length - 1; d >= 0 && i >= 0; d--) {
+      const entry = this.directions[d];
+      if (entry.frame > end) continue;
+      if (entry.frame < end - command.window) return false;
+      if (numpad(entry, facing) === digits[i]) i--;
+    }
+    if (i >= 0) return false;
+    if (press) this.consumed.add(press);
+    return true;
+  }
+
+  private lastPress(action: InputAction): InputEvent | null {
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      const e = this.events[i];
+      if (e.action === action && e.pressed) return e;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,69 @@
+// Launch physics per character: weight (heavier fighters fly less far) and
+// directional influence (DI) — the direction a launched fighter holds rotates
+// the launch angle by up to `diMaxAngle` degrees, like in platform fighters.
+
+export interface LaunchPhysics {
+  /** 100 = average; knockback is scaled by 200 / (weight + 100) */
+  weight: number;
+  /** max launch-angle rotation from DI, in degrees */
+  diMaxAngle: number;
+  /**
+   * launch impulse at LAUNCH_REFERENCE_KB knockback before scaling (px/s, up
+   * is negative); its direction is only used for hits without an angle
+   */
+  launchVy: number;
+  /** horizontal launch impulse at LAUNCH_REFERENCE_KB knockback before scaling (px/s) */
+  launchVx: number;
+}
+
+/** knockback at which a fighter is launched with its launchVx/launchVy speed */
+export const LAUNCH_REFERENCE_KB = 250;
+
+/** Held direction used for DI; y is up-positive (math coords). */
+export interface DirectionInput {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_LAUNCH_PHYSICS: LaunchPhysics = {
+  weight: 100,
+  diMaxAngle: 18,
+  launchVy: -350,
+  launchVx: 150,
+};
+
+export const LAUNCH_PHYSICS: Record<string, Partial<LaunchPhysics>> = {
+  // light and floaty
+  ninja: { weight: 85 },
+  // heavy
+  cyboard: { weight: 120, diMaxAngle: 15 },
+  granny: { weight: 95 },
+  laurin: { weight: 100 },
+};
+// the alt Laurin atlas shares Laurin's physics
+LAUNCH_PHYSICS.laurin2 = LAUNCH_PHYSICS.laurin;
+
+export function getLaunchPhysics(characterId: string | null | undefined): LaunchPhysics {
+  const own = characterId ? LAUNCH_PHYSICS[String(characterId).toLowerCase()] : undefined;
+  return { ...DEFAULT_LAUNCH_PHYSICS, ...(own || {}) };
+}
+
+/** Knockback multiplier for a weight (1 at weight 100). */
+export function weightFactor(weight: number): number {
+  return 200 / (Math.max(1, weight) + 100);
+}
+
+/**
+ * Rotate a launch angle (radians, math coords: 0 = right, PI/2 = up) by DI.
+ * Only the part of the held direction perpendicular to the launch counts,
+ * so holding along the launch line changes nothing.
+ */
+export function applyDI(angle: number, held: DirectionInput, maxAngleDeg: number): number {
+  const len = Math.hypot(held.x, held.y);
+  if (len === 0) return angle;
+  const hx = held.x / len;
+  const hy = held.y / len;
+  // cross product of launch direction and held direction = sin of the angle between them
+  const perp = Math.cos(angle) * hy - Math.sin(angle) * hx;
+  return angle + perp * (maxAngleDeg * Math.PI) / 180;
+}
@@ -0,0 +1,85 @@
+// Ledge grab and recovery. Ledges are found from the stage's solidity query
+// (the heatmap's isSolidAtCanvasPoint in the browser): a surface pixel with
+// an empty column beside it. A fighter falling past a ledge with a hand near
+// the edge hangs there (Simulation.resolveStage) and can't be hit for
+// LEDGE_INVINCIBLE_TIME. From the hang (Fighter.update):
+//  - up or towards the stage: get up onto the stage
+//  - shield: roll onto the stage, invincible until the roll ends
+//  - attack1: get up with an attack
+//  - down or away from the stage: let go
+// Hanging for LEDGE_MAX_HANG seconds lets go as well.
+
+export interface Ledge {
+  /** canvas x of the outermost solid column */
+  x: number;
+  /** canvas y of the surface */
+  y: number;
+  /** side of the empty column: -1 = left end of a platform, 1 = right end */
+  side: -1 | 1;
+}
+
+export type LedgeAction = "getup" | "roll" | "attack" | "drop";
+
+/** reach of the hands around the grab point (px) */
+export const LEDGE_GRAB_RANGE = 24;
+// px between two samples while looking for a ledge
+const LEDGE_SCAN_STEP = 2;
+/** px the column beside the surface must stay empty below it */
+export const LEDGE_DROP_DEPTH = 48;
+/** seconds of invincibility after grabbing a ledge */
+export const LEDGE_INVINCIBLE_TIME = 1.0;
+/** seconds after grabbing before the hang input is read */
+export const LEDGE_ACTION_DELAY = 0.2;
+/** seconds a fighter can hang before letting go */
+export const LEDGE_MAX_HANG = 3.0;
+/** seconds after letting go before any ledge can be grabbed again */
+export const LEDGE_REGRAB_DELAY = 0.5;
+/** px onto the stage a get-up / roll ends, from the edge */
+export const LEDGE_GETUP_DISTANCE = 30;
+export const LEDGE_ROLL_DISTANCE = 110;
+/** invincibility of a roll (s) */
+export const LEDGE_ROLL_TIME = 0.4;
+// hang position: hands at this fraction of the sprite height, body this many
+// sprite widths out from the edge
+export const LEDGE_HAND_HEIGHT = 0.3;
+export const LEDGE_HANG_OFFSET = 0.25;
+
+/**
+ * First ledge facing `side` inside the box [x0, x1] x [y0, y1], or null.
+ * Columns are scanned from the edge side inwards so the outermost ledge wins.
+ */
+export function findLedge(isSolidAt: (x: number, y: number) => boolean, side: -1 | 1, x0: number, y0: number, x1: number, y1: number): Ledge | null {
+  const step = LEDGE_SCAN_STEP;
+  const columns = Math.floor((x1 - x0) / step);
+  for (let i = 0; i <= columns; i++) {
+    const x = Math.round(side < 0 ? x0 + i * step : x1 - i * step);
+    for (let y = Math.floor(y0); y <= y1; y += step) {
+      // a surface: solid with free space above
+      if (!isSolidAt(x, y) || isSolidAt(x, y - step)) continue;
+      if (!emptyColumn(isSolidAt, x + side * step, y - step, y + LEDGE_DROP_DEPTH)) continue;
+      // snap to the exact surface row and edge column between two samples
+      let top = y;
+      while (top > y - step && isSolidAt(x, top - 1)) top--;
+      let edge = x;
+      while (edge !== x + side * step && isSolidAt(edge + side, top)) edge += side;
+      return { x: edge, y: top, side };
+    }
+  }
+  return null;
+}
+
+function emptyColumn(isSolidAt: (x: number, y: number) => boolean, x: number, fromY: number, toY: number): boolean {
+  for (let y = fromY; y <= toY; y += LEDGE_SCAN_STEP) {
+    if (isSolidAt(x, y)) return false;
+  }
+  return true;
+}
+
+/** Ledge action picked by the input while hanging (`towardsStage`: holding towards the platform). */
+export function ledgeAction(input: { up: boolean; down: boolean; towardsStage: boolean; away: boolean; shield: boolean; attack: boolean }): LedgeAction | null {
+  if (input.attack) return "attack";
+  if (input.shield) return "roll";
+  if (input.up || input.towardsStage) return "getup";
+  if (input.down || input.away) return "drop";
+  return null;
+}
@@ -0,0 +1,146 @@
+// Match clock for timed matches: counts down MatchRules.timeLimit on the
+// simulation tick, keeps time-mode scores (KOs minus falls) and runs sudden
+// death with a shrinking blast zone when time runs out on a tie.
+
+import type { Fighter } from "./fighter";
+import type { MatchRules } from "./matchRules";
+
+export interface PlayerScore {
+  kos: number;
+  falls: number;
+}
+
+/** Area outside of which a fighter is blasted off (canvas coords). */
+export interface BlastZone {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/** damagePercent every fighter starts sudden death with */
+export const SUDDEN_DEATH_PERCENT = 300;
+// blast zone margin beyond the screen edges at the start of sudden death,
+// how fast it shrinks (px/s) and how far inside the screen it may close in
+const BLAST_ZONE_MARGIN = 300;
+const BLAST_ZONE_SHRINK = 12;
+const BLAST_ZONE_MIN_INSET = 200;
+
+export class MatchClock {
+  /** seconds; 0 = untimed */
+  readonly timeLimit: number;
+  elapsed = 0;
+  suddenDeath = false;
+  // seconds spent in sudden death (drives the blast zone)
+  suddenDeathElapsed = 0;
+  readonly scores = new Map<string, PlayerScore>();
+
+  constructor(timeLimit: number) {
+    this.timeLimit = Math.max(0, timeLimit);
+  }
+
+  get remaining(): number {
+    return this.timeLimit > 0 ? Math.max(0, this.timeLimit - this.elapsed) : Infinity;
+  }
+
+  get expired(): boolean {
+    // small epsilon: summing 1/60 steps lands just short of whole seconds
+    return this.timeLimit > 0 && this.elapsed >= this.timeLimit - 1e-9;
+  }
+
+  /** Advance by one tick. Returns true on the tick the time runs out. */
+  update(dt: number): boolean {
+    if (this.suddenDeath) {
+      this.suddenDeathElapsed += dt;
+      return false;
+    }
+    const wasExpired = this.expired;
+    this.elapsed += dt;
+    return !wasExpired && this.expired;
+  }
+
+  /** Credit a fall: the victim loses a point, the last attacker (if any) gains one. */
+  recordFall(victim: string, by?: string | null) {
+    this.entry(victim).falls++;
+    if (by && by !== victim) this.entry(by).kos++;
+  }
+
+  score(name: string): number {
+    const s = this.scores.get(name);
+    return s ? s.kos - s.falls : 0;
+  }
+
+  startSuddenDeath() {
+    this.suddenDeath = true;
+    this.suddenDeathElapsed = 0;
+  }
+
+  /** Blast zone for the current moment; null outside sudden death (no side/top zone). */
+  blastZone(width: number, height: number): BlastZone | null {
+    if (!this.suddenDeath) return null;
+    const maxShrink = BLAST_ZONE_MARGIN + BLAST_ZONE_MIN_INSET;
+    const inset = Math.min(maxShrink, this.suddenDeathElapsed * BLAST_ZONE_SHRINK) - BLAST_ZONE_MARGIN;
+    // the bottom never closes in past the screen edge so low platforms stay safe
+    return { left: inset, right: width - inset, top: inset, bottom: height - Math.min(0, inset) };
+  }
+
+  /** "m:ss" countdown, "SUDDEN DEATH", or "" for untimed matches. */
+  format(): string {
+    if (this.suddenDeath) return "SUDDEN DEATH";
+    if (this.timeLimit <= 0) return "";
+    const secs = Math.ceil(this.remaining);
+    return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, "0")}`;
+  }
+
+  private entry(name: string): PlayerScore {
+    let s = this.scores.get(name);
+    if (!s) {
+      s = { kos: 0, falls: 0 };
+      this.scores.set(name, s);
+    }
+    return s;
+  }
+}
+
+/**
+ * Teams leading when time runs out: time mode ranks by KOs minus falls,
+ * stock/stamina by remaining stocks, then by lower percent (stock) or
+ * higher HP (stamina). More than one team means a tie.
+ */
+export function leadingTeams(players: Fighter[], rules: MatchRules, clock: MatchClock): string[] {
+  const rank = new Map<string, [number, number]>();
+  for (const f of players) {
+    const r = rank.get(f.team) || [0, 0];
+    if (rules.mode === "time") {
+      r[0] += clock.score(f.name);
+    } else if (f.state !== "defeat") {
+      r[0] += f.stocks;
+      r[1] += rules.mode === "stamina" ? f.hp : -f.damagePercent;
+    }
+    rank.set(f.team, r);
+  }
+  let best: [number, number] | null = null;
+  let leaders: string[] = [];
+  for (const [team, r] of rank) {
+    const cmp = best ? (r[0] - best[0]) || (rules.mode === "time" ? 0 : r[1] - best[1]) : 1;
+    if (cmp > 0) {
+      best = r;
+      leaders = [team];
+    } else if (cmp === 0) {
+      leaders.push(team);
+    }
+  }
+  return leaders;
+}
+
+/**
+ * Decide a match whose time ran out over every fighter in it (AI-controlled
+ * ones included): one leading team wins with its best standing fighter,
+ * otherwise `tied` lists the teams that go to sudden death.
+ */
+export function resolveTimeUp(players: Fighter[], rules: MatchRules, clock: MatchClock): { winner: Fighter | null; tied: string[] } {
+  const leaders = leadingTeams(players, rules, clock);
+  if (leaders.length !== 1) return { winner: null, tied: leaders };
+  const team = players.filter((f) => f.team === leaders[0]);
+  return { winner: team.find((f) => f.state !== "defeat") || team[0] || null, tied: [] };
+}
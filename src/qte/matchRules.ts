@@ -0,0 +1,91 @@
+// Match rules: which damage model a match uses, how many lives each player
+// gets and when the match is over. Chosen in the pre-match menu and read by
+// combat, KO handling and the game-over screen instead of guessing the mode
+// from which controllers happen to exist.
+
+import type { Fighter } from "./fighter";
+
+/**
+ * - stock: percent + knockback, a fall costs a stock, last one standing wins
+ * - time: percent + knockback, unlimited respawns until the clock runs out
+ * - stamina: HP based (melee costs a third of max HP), 0 HP is a KO
+ */
+export type MatchMode = "stock" | "time" | "stamina";
+
+export interface MatchRules {
+  mode: MatchMode;
+  /** lives per player in stock and stamina modes */
+  stocks: number;
+  /** match length in seconds, 0 = no limit */
+  timeLimit: number;
+  /** starting (and max) HP per player in stamina mode */
+  hp: number;
+  /** item spawns on/off */
+  items: boolean;
+}
+
+// versus matches get a 3 minute clock so a match can't run forever
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  mode: "stock",
+  stocks: 3,
+  timeLimit: 180,
+  hp: 3,
+  items: true,
+};
+
+/** Singleplayer story fights: HP based, melee takes a third of max HP. */
+export const SINGLEPLAYER_RULES: MatchRules = {
+  mode: "stamina",
+  stocks: 3,
+  timeLimit: 0,
+  hp: 3,
+  items: false,
+};
+
+export const MATCH_MODES: MatchMode[] = ["stock", "time", "stamina"];
+
+/** true when hits subtract HP instead of adding percent */
+export function usesHp(rules: MatchRules): boolean {
+  return rules.mode === "stamina";
+}
+
+/** true when a fall costs a stock (time mode respawns forever) */
+export function fallCostsStock(rules: MatchRules): boolean {
+  return rules.mode !== "time";
+}
+
+/** Reset a player's lives/HP at match start. */
+export function applyMatchRules(f: Fighter, rules: MatchRules) {
+  f.stocks = Math.max(1, Math.floor(rules.stocks));
+  if (usesHp(rules)) {
+    f.hp = Math.max(1, Math.floor(rules.hp));
+    f.maxHp = f.hp;
+  }
+}
+
+/** seconds without taking damage before stamina HP starts coming back */
+export const HP_REGEN_DELAY = 5;
+/** seconds per HP regained after the delay (poison stretches it) */
+export const HP_REGEN_INTERVAL = 4;
+
+/** Stamina rules: regain HP after a while without taking damage; poison reduces the healing. */
+export function regenerateHp(f: Fighter, dt: number, rules: MatchRules) {
+  if (!usesHp(rules) || f.state === "defeat" || f.hp >= f.maxHp) return;
+  f.hpRegen += f.hpRegen < HP_REGEN_DELAY ? dt : dt * f.status.healingMultiplier();
+  if (f.hpRegen >= HP_REGEN_DELAY + HP_REGEN_INTERVAL) {
+    f.hp = Math.min(f.maxHp, f.hp + 1);
+    f.hpRegen = HP_REGEN_DELAY;
+  }
+}
+
+/** One-line result for the game-over screen, e.g. "2 stocks left". */
+export function describeResult(winner: Fighter, rules: MatchRules): string {
+  switch (rules.mode) {
+    case "stamina":
+      return `${winner.hp} HP left`;
+    case "time":
+      return "Time!";
+    default:
+      return `${winner.stocks} stock${winner.stocks === 1 ? "" : "s"} left`;
+  }
+}
@@ -0,0 +1,74 @@
+// Movement per character: ground and air jumps, wall cling / wall jump off
+// heatmap walls (detected by Simulation.resolveStage), fast fall when holding
+// down after the peak of a jump, and what the dodge button does: free flight
+// while held ("fly") or a directional air dodge with invulnerability
+// ("airDodge", once per airtime). A double tap forward on the ground dashes
+// (see DASH_COMMAND in inputBuffer.ts).
+
+export type DodgeMode = "fly" | "airDodge";
+
+export interface MovementDef {
+  /** ground jump impulse (px/s, up is negative) */
+  jumpVy: number;
+  /** impulse after a tap shorter than SHORT_HOP_TIME */
+  shortHopVy: number;
+  /** extra jumps in the air, refilled on landing */
+  airJumps: number;
+  airJumpVy: number;
+  /** whether the fighter clings to walls it is pushing against and can jump off them */
+  wallJump: boolean;
+  /** max fall speed while clinging (px/s) */
+  wallSlideSpeed: number;
+  /** wall jump impulse away from the wall and up */
+  wallJumpVx: number;
+  wallJumpVy: number;
+  /** fall speed while fast falling (px/s) */
+  fastFallVy: number;
+  dodge: DodgeMode;
+  /** ground speed of a dash (px/s) */
+  dashSpeed: number;
+}
+
+/** seconds: a jump released sooner becomes a short hop */
+export const SHORT_HOP_TIME = 0.1;
+/** px beyond the body probed for a wall */
+export const WALL_PROBE = 3;
+/** seconds after a wall jump in which held directions don't override the push */
+export const WALL_JUMP_LOCK = 0.2;
+export const AIR_DODGE_SPEED = 520;
+/** seconds the air dodge moves the fighter (no gravity, no actions) */
+export const AIR_DODGE_TIME = 0.25;
+/** seconds of invulnerability from the start of the air dodge */
+export const AIR_DODGE_INVULNERABLE = 0.2;
+/** seconds a dash lasts */
+export const DASH_TIME = 0.2;
+
+export const DEFAULT_MOVEMENT: MovementDef = {
+  jumpVy: -350,
+  shortHopVy: -175,
+  airJumps: 1,
+  airJumpVy: -320,
+  wallJump: false,
+  wallSlideSpeed: 120,
+  wallJumpVx: 260,
+  wallJumpVy: -360,
+  fastFallVy: 700,
+  dodge: "fly",
+  dashSpeed: 480,
+};
+
+export const MOVEMENT: Record<string, Partial<MovementDef>> = {
+  // agile: two air jumps, wall jumps and an air dodge instead of flight
+  ninja: { airJumps: 2, wallJump: true, dodge: "airDodge", dashSpeed: 620 },
+  // heavy: falls fast, dodges instead of flying
+  cyboard: { airJumpVy: -280, fastFallVy: 850, dodge: "airDodge", dashSpeed: 400 },
+  granny: { airJumps: 1 },
+  laurin: { airJumps: 1, wallJump: true },
+};
+// the alt Laurin form moves like Laurin
+MOVEMENT.laurin2 = MOVEMENT.laurin;
+
+export function getMovement(characterId: string | null | undefined): MovementDef {
+  const own = characterId ? MOVEMENT[String(characterId).toLowerCase()] : undefined;
+  return { ...DEFAULT_MOVEMENT, ...(own || {}) };
+}
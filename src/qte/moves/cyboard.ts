@@ -0,0 +1,33 @@
+import type { MoveSet } from "./types";
+import { DEFAULT_MOVES } from "./defaults";
+
+// Cyborg: a slowing homing missile on ranged1, a grenade on ranged2, a
+// ricochet shot on down, down-forward, forward + ranged1 and a bigger
+// grenade as the super.
+export const CYBOARD_MOVES: MoveSet = {
+  ...DEFAULT_MOVES,
+  ranged1: {
+    animation: "ranged1",
+    duration: 0.4,
+    projectile: { projectile: "projectile2", fallbackProjectile: "projectile", spawnFrame: 2, type: "homing", fireMode: "once", status: { kind: "slow", duration: 2.5 } },
+  },
+  ranged2: {
+    animation: "ranged2",
+    duration: 0.4,
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "grenade", fireMode: "once" },
+  },
+  special: {
+    animation: "ranged1",
+    duration: 0.4,
+    command: { motion: "236", button: "ranged1", window: 20 },
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "ricochet", fireMode: "once" },
+  },
+  super: {
+    animation: "super",
+    duration: 0.7,
+    cost: 100,
+    invulnerable: 0.5,
+    freeze: 0.6,
+    projectile: { projectile: "projectile", spawnFrame: 3, type: "megaGrenade", fireMode: "once" },
+  },
+};
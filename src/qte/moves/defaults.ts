@@ -0,0 +1,42 @@
+import type { MoveSet, ProjectileDamage } from "./types";
+
+/** Percent/knockback used by every ranged projectile unless a move overrides it. */
+export const DEFAULT_PROJECTILE_DAMAGE: ProjectileDamage = { percent: 8, baseKB: 90, strength: 0.9 };
+
+// Baseline moves shared by every character: two melee attacks (hitboxes in
+// frameData.ts), two straight shots (projectile type "linear") fired on
+// frame 2, repeating while the animation loops, and a shockwave super.
+export const DEFAULT_MOVES: MoveSet = {
+  attack1: { animation: "attack1", duration: 0.35 },
+  attack2: { animation: "attack2", duration: 0.35 },
+  ranged1: {
+    animation: "ranged1",
+    duration: 0.4,
+    projectile: {
+      // ranged1 prefers the alternate projectile sprite when the atlas has one
+      projectile: "projectile2",
+      fallbackProjectile: "projectile",
+      spawnFrame: 2,
+      type: "linear",
+      fireMode: "repeat",
+    },
+  },
+  ranged2: {
+    animation: "ranged2",
+    duration: 0.4,
+    projectile: {
+      projectile: "projectile",
+      spawnFrame: 2,
+      type: "linear",
+      fireMode: "repeat",
+    },
+  },
+  super: {
+    animation: "super",
+    duration: 0.7,
+    cost: 100,
+    invulnerable: 0.5,
+    freeze: 0.6,
+    projectile: { projectile: "blast", fallbackProjectile: "projectile", spawnFrame: 3, type: "shockwave", fireMode: "once" },
+  },
+};
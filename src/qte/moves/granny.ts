@@ -0,0 +1,35 @@
+import type { MoveSet } from "./types";
+import { DEFAULT_MOVES } from "./defaults";
+
+export const GRANNY_MOVES: MoveSet = {
+  ...DEFAULT_MOVES,
+  // R2 toggles a stance: hold the last attack2 frame as idle, press again to
+  // leave it (attack2 plays backwards once)
+  attack2: {
+    animation: "attack2",
+    duration: 0.35,
+    stance: {
+      holdLastFrame: true,
+      reverseOnExit: true,
+      // frames at grid cells r5c6..r6c3 of the attack2 atlas
+      altAnimations: {
+        attack1alt: [[1536, 1280], [1792, 1280], [0, 1536], [256, 1536], [512, 1536], [768, 1536]],
+      },
+    },
+  },
+  // ranged2 shot weaves up and down and poisons
+  ranged2: {
+    animation: "ranged2",
+    duration: 0.4,
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "sine", fireMode: "once", status: { kind: "poison", duration: 5 } },
+  },
+  // super: a poisoning shockwave around her
+  super: {
+    animation: "super",
+    duration: 0.7,
+    cost: 100,
+    invulnerable: 0.5,
+    freeze: 0.6,
+    projectile: { projectile: "blast", fallbackProjectile: "projectile", spawnFrame: 3, type: "miasma", fireMode: "once" },
+  },
+};
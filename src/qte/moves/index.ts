@@ -0,0 +1,39 @@
+// Move-set registry: character id (CharacterConfig.name) -> MoveSet.
+// New characters register a move-set file here (or via registerMoveSet)
+// instead of adding characterId checks to fighter.ts.
+
+import type { MoveSet } from "./types";
+import { DEFAULT_MOVES } from "./defaults";
+import { NINJA_MOVES } from "./ninja";
+import { CYBOARD_MOVES } from "./cyboard";
+import { LAURIN_MOVES } from "./laurin";
+import { LAURIN2_MOVES } from "./laurin2";
+import { GRANNY_MOVES } from "./granny";
+
+export * from "./types";
+export { DEFAULT_MOVES, DEFAULT_PROJECTILE_DAMAGE } from "./defaults";
+export { getProjectileType, registerProjectileType } from "./projectiles";
+
+const REGISTRY: Record<string, MoveSet> = {
+  ninja: NINJA_MOVES,
+  cyboard: CYBOARD_MOVES,
+  laurin: LAURIN_MOVES,
+  laurin2: LAURIN2_MOVES,
+  granny: GRANNY_MOVES,
+};
+
+export function registerMoveSet(characterId: string, moves: MoveSet) {
+  if (!characterId || typeof characterId !== "string") throw new Error("move-set character id must be a string");
+  REGISTRY[characterId.toLowerCase()] = moves;
+}
+
+/** Remove a registered move-set; the id falls back to the default kit. */
+export function unregisterMoveSet(characterId: string) {
+  delete REGISTRY[String(characterId).toLowerCase()];
+}
+
+/** Move-set for a character id; unknown ids get the default kit. */
+export function getMoveSet(characterId: string | null | undefined): MoveSet {
+  if (!characterId) return DEFAULT_MOVES;
+  return REGISTRY[String(characterId).toLowerCase()] || DEFAULT_MOVES;
+}
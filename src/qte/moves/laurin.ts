@@ -0,0 +1,46 @@
+import type { MoveSet } from "./types";
+import { DEFAULT_MOVES } from "./defaults";
+
+export const LAURIN_MOVES: MoveSet = {
+  ...DEFAULT_MOVES,
+  // attack1 also throws projectile3 on frame 4 (needs the atlas frames; no fallback sprite)
+  attack1: {
+    animation: "attack1",
+    duration: 0.35,
+    projectile: {
+      projectile: "projectile3",
+      fallbackProjectile: null,
+      spawnFrame: 4,
+      type: "linear",
+      fireMode: "once",
+    },
+  },
+  // ranged1 lobs a single burning projectile2 per press
+  ranged1: {
+    animation: "ranged1",
+    duration: 0.4,
+    projectile: {
+      projectile: "projectile2",
+      fallbackProjectile: "projectile",
+      spawnFrame: 2,
+      type: "arcing",
+      fireMode: "once",
+      status: { kind: "burn", duration: 3 },
+    },
+  },
+  // ranged2 fires a slow ball that keeps hitting whoever stands in it
+  ranged2: {
+    animation: "ranged2",
+    duration: 0.4,
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "multihit", fireMode: "once" },
+  },
+  // super: a big burning ball that keeps hitting
+  super: {
+    animation: "super",
+    duration: 0.7,
+    cost: 100,
+    invulnerable: 0.5,
+    freeze: 0.6,
+    projectile: { projectile: "projectile2", fallbackProjectile: "projectile", spawnFrame: 3, type: "inferno", fireMode: "once", status: { kind: "burn", duration: 4 } },
+  },
+};
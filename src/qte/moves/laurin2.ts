@@ -0,0 +1,13 @@
+import type { MoveSet } from "./types";
+import { DEFAULT_MOVES } from "./defaults";
+
+// The alt Laurin atlas has no special moves of its own besides ranged2.
+export const LAURIN2_MOVES: MoveSet = {
+  ...DEFAULT_MOVES,
+  // ranged2 fires a fast shot that passes through fighters
+  ranged2: {
+    animation: "ranged2",
+    duration: 0.4,
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "piercing", fireMode: "once" },
+  },
+};
@@ -0,0 +1,31 @@
+import type { MoveSet } from "./types";
+import { DEFAULT_MOVES } from "./defaults";
+
+// Ninja uses the baseline kit except for attack2, ranged2 and its specials.
+export const NINJA_MOVES: MoveSet = {
+  ...DEFAULT_MOVES,
+  // attack2 freezes the target briefly
+  attack2: { animation: "attack2", duration: 0.35, status: { kind: "freeze", duration: 0.6 } },
+  // ranged2 throws a boomerang that comes back to the ninja
+  ranged2: {
+    animation: "ranged2",
+    duration: 0.4,
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "boomerang", fireMode: "once" },
+  },
+  // down, down-forward, forward + attack1: a piercing shuriken
+  special: {
+    animation: "ranged1",
+    duration: 0.4,
+    command: { motion: "236", button: "attack1", window: 20 },
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "piercing", fireMode: "once" },
+  },
+  // super: a piercing slash across the stage
+  super: {
+    animation: "super",
+    duration: 0.6,
+    cost: 100,
+    invulnerable: 0.4,
+    freeze: 0.6,
+    projectile: { projectile: "projectile", spawnFrame: 2, type: "comet", fireMode: "once" },
+  },
+};
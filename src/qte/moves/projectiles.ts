@@ -0,0 +1,61 @@
+// Projectile type registry: name -> ProjectileType. Move-sets pick a type
+// by name in ProjectileSpawn.type; new behaviours register here (or via
+// registerProjectileType) instead of adding special cases to Projectile.
+
+import type { ProjectileType } from "./types";
+import { DEFAULT_PROJECTILE_DAMAGE } from "./defaults";
+
+const REGISTRY: Record<string, ProjectileType> = {
+  // straight shot
+  linear: { motion: "linear", speed: 600, lifespan: 1.2, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: false, hit: "single" },
+  // lob (Laurin's ranged1)
+  arcing: { motion: "linear", speed: 600, lifespan: 1.2, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: false, hit: "single", initialVy: -220, gravity: 900 },
+  // slower missile that turns towards the nearest enemy
+  homing: { motion: "homing", speed: 380, lifespan: 2.0, damage: { percent: 10, baseKB: 100, strength: 0.9 }, knockback: true, hit: "single", turnRate: 3 },
+  sine: { motion: "sine", speed: 500, lifespan: 1.5, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: false, hit: "single", amplitude: 60, frequency: 2 },
+  // flies out and back to the thrower, hitting everything on the way
+  boomerang: { motion: "boomerang", speed: 700, lifespan: 1.2, damage: { percent: 6, baseKB: 80, strength: 0.8 }, knockback: true, hit: "pierce", returnTime: 1.2 },
+  piercing: { motion: "linear", speed: 800, lifespan: 1.0, damage: { percent: 7, baseKB: 90, strength: 0.9 }, knockback: false, hit: "pierce" },
+  // ricochets off walls and floors twice before blasting
+  ricochet: { motion: "linear", speed: 650, lifespan: 1.6, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: false, hit: "single", bounces: 2, restitution: 0.9 },
+  // bounces once, then explodes on the next terrain contact or when the fuse runs out
+  grenade: {
+    motion: "linear", speed: 420, lifespan: 1.1, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: true, hit: "single",
+    initialVy: -320, gravity: 900, bounces: 1, restitution: 0.5,
+    explosion: { radius: 160, damage: { percent: 14, baseKB: 130, strength: 1.1 }, falloff: 0.4 },
+  },
+  // slow energy ball that keeps hitting whoever stands in it
+  multihit: { motion: "linear", speed: 250, lifespan: 1.6, damage: { percent: 3, baseKB: 40, strength: 0.5 }, knockback: false, hit: "multi", hitInterval: 0.2 },
+  // supers (MoveSet.super)
+  // standing blast around the fighter: detonates right away
+  shockwave: {
+    motion: "linear", speed: 0, lifespan: 0.05, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: true, hit: "single",
+    explosion: { radius: 240, damage: { percent: 18, baseKB: 160, strength: 1.2 }, falloff: 0.5 },
+  },
+  // shockwave that poisons (Granny)
+  miasma: {
+    motion: "linear", speed: 0, lifespan: 0.05, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: true, hit: "single",
+    explosion: { radius: 260, damage: { percent: 14, baseKB: 130, strength: 1.0 }, falloff: 0.6, status: { kind: "poison", duration: 6 } },
+  },
+  // fast piercing slash across the screen
+  comet: { motion: "linear", speed: 1100, lifespan: 1.0, damage: { percent: 16, baseKB: 150, strength: 1.1 }, knockback: true, hit: "pierce" },
+  // large slow ball that keeps hitting
+  inferno: { motion: "linear", speed: 200, lifespan: 2.0, damage: { percent: 4, baseKB: 60, strength: 0.7 }, knockback: true, hit: "multi", hitInterval: 0.15 },
+  megaGrenade: {
+    motion: "linear", speed: 480, lifespan: 1.0, damage: DEFAULT_PROJECTILE_DAMAGE, knockback: true, hit: "single",
+    initialVy: -360, gravity: 900,
+    explosion: { radius: 300, damage: { percent: 24, baseKB: 180, strength: 1.3 }, falloff: 0.4 },
+  },
+};
+
+export function registerProjectileType(name: string, type: ProjectileType) {
+  if (!name || typeof name !== "string") throw new Error("projectile type name must be a string");
+  REGISTRY[name.toLowerCase()] = type;
+}
+
+/** Projectile type by name; unknown names get the straight shot. */
+export function getProjectileType(name: string | ProjectileType | null | undefined): ProjectileType {
+  if (name && typeof name === "object") return name;
+  if (!name) return REGISTRY.linear;
+  return REGISTRY[String(name).toLowerCase()] || REGISTRY.linear;
+}
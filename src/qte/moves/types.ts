@@ -0,0 +1,154 @@
+// Declarative move-set format. One file per character in this folder
+// describes what each button does; Fighter reads these instead of
+// checking characterId.
+
+import type { StatusEffectDef } from "../statusEffects";
+import type { MotionCommand } from "../inputBuffer";
+
+/** Percent/knockback a projectile applies on hit. */
+export interface ProjectileDamage {
+  /** percent added to the target */
+  percent: number;
+  baseKB: number;
+  strength: number;
+}
+
+/**
+ * Area damage of an explosion: full damage at the center, falling off to
+ * `falloff` of it at the edge of the radius.
+ */
+export interface ExplosionDef {
+  /** px from the blast center */
+  radius: number;
+  damage: ProjectileDamage;
+  /** share of percent/knockback left at the edge (1 = no falloff) */
+  falloff: number;
+  /** status effect applied to everyone caught in the blast */
+  status?: StatusEffectDef;
+}
+
+/**
+ * How a projectile moves. Gravity (ProjectileType.gravity) applies on top of
+ * any motion; a "linear" shot with gravity is an arcing lob.
+ */
+export type ProjectileMotion = "linear" | "homing" | "sine" | "boomerang";
+
+/**
+ * What a hit does to the projectile.
+ * "single": it is destroyed by the first hit.
+ * "pierce": it survives hits and hits every target once.
+ * "multi": it survives hits and hits the same target again every `hitInterval`.
+ */
+export type ProjectileHitMode = "single" | "pierce" | "multi";
+
+/** Projectile behaviour; named types live in the registry in projectiles.ts. */
+export interface ProjectileType {
+  motion: ProjectileMotion;
+  /** horizontal speed in px/s (mirrored by facing) */
+  speed: number;
+  /** seconds until it fades; straight shots also stop at the screen edge */
+  lifespan: number;
+  damage: ProjectileDamage;
+  /** whether the hit applies knockback (receiveHit) or only adds percent */
+  knockback: boolean;
+  hit: ProjectileHitMode;
+  /** "multi": seconds before the same target can be hit again */
+  hitInterval?: number;
+  /** initial vertical speed; negative = upwards */
+  initialVy?: number;
+  /** px/s^2 pulling the projectile down (0 = none) */
+  gravity?: number;
+  /** "homing": max turn towards the nearest enemy in radians/s */
+  turnRate?: number;
+  /** "sine": wave height in px and waves per second */
+  amplitude?: number;
+  frequency?: number;
+  /** "boomerang": seconds until it is back at the thrower */
+  returnTime?: number;
+  /** times it ricochets off terrain before blasting (default 0) */
+  bounces?: number;
+  /** share of the speed kept on each ricochet (default 1) */
+  restitution?: number;
+  /**
+   * Explosive shot: detonates on contact with an enemy, on terrain (after its
+   * ricochets) and when its lifespan runs out, dealing only the area damage.
+   */
+  explosion?: ExplosionDef;
+}
+
+/**
+ * "once": one projectile per button press.
+ * "repeat": also fire every time the animation loops (hold-to-autofire).
+ */
+export type FireMode = "once" | "repeat";
+
+export interface ProjectileSpawn {
+  /** atlas animation used for the projectile sprite (projectile, projectile2, projectile3, ...) */
+  projectile: string;
+  /** animation to use when `projectile` has no atlas frames; null = don't fire without it */
+  fallbackProjectile?: string | null;
+  /** animation frame on which the projectile is spawned */
+  spawnFrame: number;
+  /** registered projectile type name (see projectiles.ts) or an inline type */
+  type: string | ProjectileType;
+  fireMode: FireMode;
+  /** status effect the shot applies on hit */
+  status?: StatusEffectDef;
+}
+
+/**
+ * Toggle stance entered by pressing the move and left by pressing it again
+ * (e.g. Granny's R2).
+ */
+export interface StanceDef {
+  /** hold the move's last frame as the idle pose while in stance */
+  holdLastFrame: boolean;
+  /** play the move backwards once when leaving the stance */
+  reverseOnExit: boolean;
+  /** extra animations built from atlas cells ([x, y] of each frame) of the move's atlas */
+  altAnimations?: Record<string, [number, number][]>;
+}
+
+export interface MoveDef {
+  /** animation played for the move (its hitboxes live in frameData.ts) */
+  animation: string;
+  /** seconds the move stays active after the press */
+  duration: number;
+  projectile?: ProjectileSpawn;
+  stance?: StanceDef;
+  /** status effect a melee hit of this move applies */
+  status?: StatusEffectDef;
+}
+
+/**
+ * Character super: ranged1 + ranged2 pressed together with at least `cost`
+ * meter (see superMeter.ts). Its projectile is fired on `spawnFrame` of the
+ * super's animation like a melee move's projectile.
+ */
+export interface SuperDef extends MoveDef {
+  /** meter spent */
+  cost: number;
+  /** seconds of invulnerability from the start of the move */
+  invulnerable: number;
+  /** seconds the whole match pauses when the super starts */
+  freeze: number;
+}
+
+/**
+ * Command special: started by a motion input (see inputBuffer.ts) instead of
+ * a single button, e.g. down, down-forward, forward + attack1.
+ */
+export interface CommandSpecialDef extends MoveDef {
+  command: MotionCommand;
+}
+
+export interface MoveSet {
+  attack1: MoveDef;
+  attack2: MoveDef;
+  ranged1: MoveDef;
+  ranged2: MoveDef;
+  super: SuperDef;
+  special?: CommandSpecialDef;
+}
+
+export type MoveName = keyof MoveSet;
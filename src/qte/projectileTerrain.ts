@@ -0,0 +1,54 @@
+// Projectiles vs. level terrain. Every tick the projectile's center is swept
+// from its previous to its current position through the stage's solidity
+// query (the heatmap's isSolidAtCanvasPoint in the browser), so fast shots
+// can't pass through walls and thin platforms between two ticks.
+
+import type { Projectile } from "./fighter";
+
+// px between two samples along the path
+const SWEEP_STEP = 4;
+
+export interface TerrainHit {
+  /** last free point before the terrain (where the blast goes) */
+  x: number;
+  y: number;
+  /** surface hit: "x" = wall (horizontal movement blocked), "y" = floor or ceiling */
+  axis: "x" | "y";
+}
+
+/** First terrain contact on the straight path from (fromX, fromY) to (toX, toY), or null. */
+export function sweepTerrain(fromX: number, fromY: number, toX: number, toY: number, isSolidAt: (x: number, y: number) => boolean): TerrainHit | null {
+  const steps = Math.max(1, Math.ceil(Math.hypot(toX - fromX, toY - fromY) / SWEEP_STEP));
+  let px = fromX;
+  let py = fromY;
+  for (let i = 1; i <= steps; i++) {
+    const x = fromX + ((toX - fromX) * i) / steps;
+    const y = fromY + ((toY - fromY) * i) / steps;
+    if (isSolidAt(x, y)) {
+      // moving only horizontally already enters the terrain: it's a wall
+      return { x: px, y: py, axis: isSolidAt(x, py) ? "x" : "y" };
+    }
+    px = x;
+    py = y;
+  }
+  return null;
+}
+
+/**
+ * Collide `pr` with the terrain along its last movement. A shot with
+ * ricochets left (ProjectileType.bounces) bounces off and stays alive;
+ * otherwise the impact is returned and the caller blasts the shot.
+ */
+export function collideWithTerrain(pr: Projectile, isSolidAt: (x: number, y: number) => boolean): TerrainHit | null {
+  const hw = pr.displayW * 0.5;
+  const hh = pr.displayH * 0.5;
+  const hit = sweepTerrain(pr.prevX + hw, pr.prevY + hh, pr.x + hw, pr.y + hh, isSolidAt);
+  if (!hit) return null;
+  if (pr.bounces < (pr.type.bounces ?? 0)) {
+    pr.x = hit.x - hw;
+    pr.y = hit.y - hh;
+    pr.bounce(hit.axis, pr.type.restitution ?? 1);
+    return null;
+  }
+  return hit;
+}
@@ -0,0 +1,178 @@
+// Match replays: record the per-tick input map that drives Fighter.update and
+// feed it back later through the same path. Because the simulation runs on a
+// fixed step (see fixedStep.ts) and doesn't read wall-clock time, the same
+// inputs + match setup reproduce the same match.
+
+import { FIXED_DT } from "./fixedStep";
+import type { InputState } from "./input";
+import type { MatchRules } from "./matchRules";
+
+export const REPLAY_FORMAT = "qte-replay";
+/** Bump when the serialized layout changes in an incompatible way. */
+export const REPLAY_VERSION = 1;
+
+export interface ReplayMeta {
+  /** character ids as used by getCharacterConfig() */
+  characters: { p1: string | null; p2: string | null; p3?: string | null; p4?: string | null };
+  /** match rules the replay was recorded with (older replays: default stock rules) */
+  rules?: MatchRules;
+  /** team battle settings; absent in free-for-all replays */
+  teams?: { friendlyFire: boolean };
+  /** section the match started in (section_XX index) */
+  sectionIdx: number;
+  ai: { p2: boolean };
+  /** simulation tick length the replay was recorded with */
+  fixedDt: number;
+  createdAt?: string;
+}
+
+/**
+ * One run of identical input frames. `down` holds indices into
+ * ReplayFile.keys for every key that was pressed during those frames.
+ */
+export interface ReplayRun {
+  n: number;
+  down: number[];
+}
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  meta: ReplayMeta;
+  /** key codes referenced by ReplayRun.down */
+  keys: string[];
+  frames: ReplayRun[];
+}
+
+/**
+ * Collects input frames (one per simulation tick) and encodes them as
+ * run-length compressed key index lists.
+ */
+export class ReplayRecorder {
+  readonly meta: ReplayMeta;
+  private keys: string[] = [];
+  private keyIndex: Record<string, number> = {};
+  private runs: ReplayRun[] = [];
+  private lastSignature: string | null = null;
+  private count = 0;
+
+  constructor(meta: Omit<ReplayMeta, "fixedDt"> & { fixedDt?: number }) {
+    this.meta = { ...meta, fixedDt: meta.fixedDt ?? FIXED_DT };
+  }
+
+  /** Number of ticks recorded so far. */
+  get frameCount() {
+    return this.count;
+  }
+
+  record(input: InputState) {
+    const down: number[] = [];
+    for (const code of Object.keys(input)) {
+      if (!input[code]) continue;
+      let idx = this.keyIndex[code];
+      if (idx === undefined) {
+        idx = this.keys.length;
+        this.keys.push(code);
+        this.keyIndex[code] = idx;
+      }
+      down.push(idx);
+    }
+    down.sort((a, b) => a - b);
+    const signature = down.join(",");
+    if (signature === this.lastSignature && this.runs.length > 0) {
+      this.runs[this.runs.length - 1].n++;
+    } else {
+      this.runs.push({ n: 1, down });
+      this.lastSignature = signature;
+    }
+    this.count++;
+  }
+
+  toReplay(): ReplayFile {
+    return {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      meta: { ...this.meta, characters: { ...this.meta.characters }, ai: { ...this.meta.ai }, rules: this.meta.rules && { ...this.meta.rules } },
+      keys: this.keys.slice(),
+      frames: this.runs.map((r) => ({ n: r.n, down: r.down.slice() })),
+    };
+  }
+}
+
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay JSON string. Throws on unknown formats or
+ * versions newer than this build understands.
+ */
+export function parseReplay(text: string): ReplayFile {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`[replay] invalid JSON: ${String(e)}`);
+  }
+  if (!data || data.format !== REPLAY_FORMAT) {
+    throw new Error("[replay] not a qte replay file");
+  }
+  if (typeof data.version !== "number" || data.version > REPLAY_VERSION) {
+    throw new Error(`[replay] unsupported replay version ${data.version} (supported: ${REPLAY_VERSION})`);
+  }
+  if (!data.meta || !Array.isArray(data.keys) || !Array.isArray(data.frames)) {
+    throw new Error("[replay] replay is missing meta, keys or frames");
+  }
+  for (const run of data.frames) {
+    if (!run || typeof run.n !== "number" || run.n < 1 || !Array.isArray(run.down)) {
+      throw new Error("[replay] malformed frame run");
+    }
+  }
+  return data as ReplayFile;
+}
+
+/**
+ * Steps through a replay one tick at a time, producing the same input map
+ * that was recorded. Returns null once the recording is exhausted.
+ */
+export class ReplayPlayer {
+  readonly replay: ReplayFile;
+  /** index of the next tick to be returned */
+  frame = 0;
+  private runIdx = 0;
+  private runOffset = 0;
+  private total: number;
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+    this.total = replay.frames.reduce((sum, r) => sum + r.n, 0);
+  }
+
+  get length() {
+    return this.total;
+  }
+
+  get done() {
+    return this.frame >= this.total;
+  }
+
+  next(): InputState | null {
+    if (this.done) return null;
+    const run = this.replay.frames[this.runIdx];
+    const out: InputState = {};
+    // every key the replay knows about is reported explicitly so released
+    // keys read as false rather than undefined
+    for (const code of this.replay.keys) out[code] = false;
+    for (const idx of run.down) {
+      const code = this.replay.keys[idx];
+      if (code) out[code] = true;
+    }
+    this.frame++;
+    this.runOffset++;
+    if (this.runOffset >= run.n) {
+      this.runIdx++;
+      this.runOffset = 0;
+    }
+    return out;
+  }
+}
@@ -0,0 +1,26 @@
+// Held shield, the second defensive option next to parry. While the shield
+// key is held on the ground, hits are blocked: they only deal a fraction of
+// their damage as chip damage, drain shield health and cause a short shield
+// stun. Shield health slowly drains while held and regenerates while down;
+// when it runs out the shield breaks and the fighter is stunned.
+
+export const MAX_SHIELD = 50;
+// shield health per second: lost while held, regained while down
+export const SHIELD_DRAIN = 5;
+export const SHIELD_REGEN = 10;
+/** fraction of a blocked hit's percent that still goes through */
+export const SHIELD_CHIP = 0.2;
+/** seconds a fighter stays stunned after the shield breaks */
+export const SHIELD_BREAK_STUN = 2.5;
+/** shield health the fighter gets back after a break */
+export const SHIELD_AFTER_BREAK = MAX_SHIELD * 0.3;
+
+/** Shield stun in seconds for blocking a hit dealing `damage` percent. */
+export function shieldStunSeconds(damage: number): number {
+  return Math.min(0.5, 0.05 + Math.max(0, damage) * 0.015);
+}
+
+/** Percent a blocked hit still deals. */
+export function chipDamage(damage: number): number {
+  return Math.max(0, damage) * SHIELD_CHIP;
+}
@@ -62,6 +62,9 @@ export class SimpleAI {
   // Enhanced behavior: patrol + aggro
   private isAggro = false;
   private lastAggroLog = 0; // Rate limiting for aggro logs
+  // Simulation time (seconds) accumulated from update(dt). Used instead of
+  // Date.now() so AI decisions stay deterministic under the fixed-step loop.
+  private clock = 0;
 
   constructor(opts: SimpleAiOptions) {
     this.keys = opts.keys;
@@ -117,6 +120,7 @@ export class SimpleAI {
   // Mutates mergedInput for P2 keys based on simple heuristics
   update(dt: number, mergedInput: Record<string, boolean>, p2: any, p1: any, projectiles: Projectile[]) {
     if (!p2 || !p1) return;
+    this.clock += dt;
 
     // Enhanced patrol behavior: patrol + aggro when player is in range
     if (this.simplePatrol && this.spawnX !== null) {
@@ -160,9 +164,9 @@ export class SimpleAI {
         }
 
         // Log aggro status every 3 seconds
-        if (!this.lastAggroLog || Date.now() - this.lastAggroLog > 3000) {
+        if (!this.lastAggroLog || this.clock - this.lastAggroLog > 3) {
           console.log(`[NPC] 🔥 AGGRO: chasing player at ${distanceToPlayer.toFixed(1)}px (attack range: ${this.attackRange}px)`);
-          this.lastAggroLog = Date.now();
+          this.lastAggroLog = this.clock;
         }
 
         // Return early - we're in aggro mode
@@ -211,11 +215,11 @@ export class SimpleAI {
         }
 
         // Log current status every 2 seconds (rate limited)
-        if (!this._lastPatrolLog || Date.now() - this._lastPatrolLog > 2000) {
+        if (!this._lastPatrolLog || this.clock - this._lastPatrolLog > 2) {
           const direction = this.returningToSpawn ? "← returning to spawn" : "→ going to patrol point";
           const distanceToTarget = Math.abs(currentX - this.patrolTargetX);
           console.log(`[NPC] 📍 Status: pos=${currentX.toFixed(1)}, target=${this.patrolTargetX.toFixed(1)}, dist=${distanceToTarget.toFixed(1)}px ${direction}`);
-          this._lastPatrolLog = Date.now();
+          this._lastPatrolLog = this.clock;
         }
       }
 
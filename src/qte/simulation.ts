@@ -0,0 +1,609 @@
+// Simulation core: everything that advances the match by one fixed tick
+// (AI controllers, Fighter.update, stage collision, projectiles/blasts and
+// combat resolution) without touching the DOM or a canvas.
+//
+// createGame() drives a Simulation with heatmap-backed collision queries;
+// createSimulation() builds a headless one for tests and tooling.
+
+import { Fighter, Projectile, Blast } from "./fighter";
+import { resolveCombat, createBlast, canHit, applyBurn, type CombatEvent } from "./combat";
+import { FIXED_DT } from "./fixedStep";
+import { P2_KEYS, PLAYER_KEYS, type InputState } from "./input";
+import { buildSpriteConfig, getCharacterConfig } from "./assetRegistry";
+import { SimpleAI } from "./simpleAi";
+import type { BlastZone } from "./matchClock";
+import { ComboTracker } from "./combo";
+import { DEFAULT_MATCH_RULES, applyMatchRules, fallCostsStock, regenerateHp, type MatchRules } from "./matchRules";
+import { findLedge, LEDGE_GRAB_RANGE, LEDGE_HAND_HEIGHT, LEDGE_HANG_OFFSET } from "./ledge";
+import { getTransformForm } from "./transform";
+import { WALL_PROBE } from "./movement";
+
+/** Canvas-space solidity query (replaces isSolidAtCanvasPoint when headless). */
+export type SolidQuery = (x: number, y: number) => boolean;
+
+export interface StageQuery {
+  isSolidAt: SolidQuery;
+  /**
+   * Optional precise landing sweep: first solid canvas y in [fromY, toY] at
+   * column x, or null. Defaults to stepping isSolidAt one pixel at a time.
+   */
+  findLanding?: (x: number, fromY: number, toY: number) => number | null;
+  /** canvas y of the main platform top (used as an emergency floor) */
+  mainPlatformTop?: () => number;
+  /** whether collision data is loaded; the emergency floor only applies when true */
+  ready?: () => boolean;
+}
+
+/** Anything that drives a fighter by writing into the shared input map (SimpleAI, NPCController). */
+export interface FighterController {
+  update(dt: number, input: InputState, self: Fighter, target: Fighter | null, projectiles: Projectile[]): void;
+}
+
+export type SimulationEvent =
+  | CombatEvent
+  | { type: "fall"; fighter: string; by?: string }
+  | { type: "ledge"; fighter: string }
+  | { type: "super"; fighter: string }
+  | { type: "defeat"; fighter: string };
+
+export interface FighterSnapshot {
+  name: string;
+  characterId: string | null;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  facing: number;
+  state: string;
+  onGround: boolean;
+  damagePercent: number;
+  stocks: number;
+  hp: number;
+  launched: boolean;
+  parrying: boolean;
+  hurt: boolean;
+}
+
+export interface ProjectileSnapshot {
+  owner: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface SimulationState {
+  tick: number;
+  time: number;
+  fighters: FighterSnapshot[];
+  projectiles: ProjectileSnapshot[];
+  blasts: number;
+  /** events raised during the last step */
+  events: SimulationEvent[];
+}
+
+export interface SimulationConfig {
+  width: number;
+  height: number;
+  stage: StageQuery;
+  /** y beyond which a fighter counts as fallen off the stage (default height + 300) */
+  fallThreshold?: number;
+  /**
+   * Called when a fighter falls past fallThreshold. Return true if the
+   * fighter was removed from the match. Defaults to stock loss + respawn.
+   */
+  onFall?: (f: Fighter) => boolean;
+  /** Blast factory (defaults to combat.createBlast: the owner's own blast frames). */
+  createBlast?: (owner: Fighter | null, x: number, y: number) => Blast;
+  /** Match rules (damage model, stocks); defaults to DEFAULT_MATCH_RULES. */
+  rules?: MatchRules;
+  /** Share existing projectile/blast lists (the renderer draws from them). */
+  projectiles?: Projectile[];
+  blasts?: Blast[];
+}
+
+export class Simulation {
+  width: number;
+  height: number;
+  fallThreshold: number;
+  stage: StageQuery;
+
+  p1: Fighter | null = null;
+  p2: Fighter | null = null;
+  // P3/P4 in three- and four-player matches
+  players: Fighter[] = [];
+  // extra NPCs (e.g. Granny) that move and collide with the stage but are not part of the P1/P2 duel
+  npcs: Fighter[] = [];
+  readonly projectiles: Projectile[];
+  readonly blasts: Blast[];
+  readonly controllers = new Map<Fighter, FighterController>();
+  /** false pauses all controllers (e.g. during section transitions) */
+  aiEnabled = true;
+  /** allow hits between fighters on the same team */
+  friendlyFire = false;
+  rules: MatchRules;
+  readonly combos = new ComboTracker();
+  /** blast zone beyond which fighters count as fallen (in addition to fallThreshold) */
+  blastZone: BlastZone | null = null;
+
+  tick = 0;
+  // ticks left of a super's cinematic freeze (the whole match pauses)
+  superFreeze = 0;
+  // fighter whose super started the current freeze
+  superFighter: Fighter | null = null;
+  time = 0;
+  events: SimulationEvent[] = [];
+  // respawn points used by the default fall handler
+  readonly spawnPoints = new Map<Fighter, { x: number; y: number }>();
+
+  private onFall?: (f: Fighter) => boolean;
+  private blastFactory?: (owner: Fighter | null, x: number, y: number) => Blast;
+
+  constructor(config: SimulationConfig) {
+    this.width = config.width;
+    this.height = config.height;
+    this.stage = config.stage;
+    this.fallThreshold = config.fallThreshold ?? config.height + 300;
+    this.onFall = config.onFall;
+    this.blastFactory = config.createBlast;
+    this.rules = config.rules ?? DEFAULT_MATCH_RULES;
+    this.projectiles = config.projectiles ?? [];
+    this.blasts = config.blasts ?? [];
+  }
+
+  get fighters(): Fighter[] {
+    const out: Fighter[] = [];
+    if (this.p1) out.push(this.p1);
+    if (this.p2) out.push(this.p2);
+    for (const p of this.players) if (p) out.push(p);
+    for (const n of this.npcs) if (n) out.push(n);
+    return out;
+  }
+
+  /** Advance the world by one tick using the given input map. */
+  step(input: InputState = {}, dt: number = FIXED_DT): SimulationState {
+    this.events = [];
+
+    // cinematic freeze after a super starts: nothing moves
+    if (this.superFreeze > 0) {
+      this.superFreeze--;
+      if (this.superFreeze === 0) this.superFighter = null;
+      this.tick++;
+      this.time += dt;
+      return this.snapshot();
+    }
+
+    // Let AI controllers write their inputs for this tick
+    if (this.aiEnabled) {
+      for (const [f, controller] of this.controllers) {
+        if (!this.fighters.includes(f)) continue;
+        try {
+          // Respect temporary AI pause timer on the fighter (set on spawn)
+          const t = (f as any)._aiPauseTimer;
+          if (typeof t === "number" && t > 0) {
+            (f as any)._aiPauseTimer = Math.max(0, t - dt);
+          } else {
+            controller.update(dt, input, f, this.opponentOf(f), this.projectiles);
+          }
+        } catch (e) { /* swallow AI errors to avoid breaking the loop */ }
+      }
+    }
+
+    // fighters in hitstop stay frozen in place (velocity is kept for after the freeze)
+    const active = this.fighters.filter((f) => {
+      if (f.hitstop <= 0) return true;
+      f.hitstop--;
+      // DI is read while frozen so the victim can pick a direction during hitlag;
+      // presses keep being buffered for after the freeze
+      f.readHeldDirection(input);
+      f.inputBuffer.record(input);
+      return false;
+    });
+
+    for (const f of active) {
+      // Prevent updating defeated/frozen fighters
+      if (!(f as any)._frozen) f.update(dt, input, this.projectiles, this.blasts);
+      applyBurn(f, this.rules);
+      regenerateHp(f, dt, this.rules);
+      // ensure newly spawned NPCs get a short AI pause to avoid immediate fall-through
+      if (this.controllers.has(f) && (f as any)._aiPauseTimer == null) (f as any)._aiPauseTimer = 0.25;
+    }
+
+    for (const f of active) this.resolveStage(f, dt, input);
+
+    for (const f of active) {
+      if (!f.superStarted) continue;
+      f.superStarted = false;
+      this.superFreeze = Math.round(f.moves.super.freeze / dt);
+      this.superFighter = f;
+      this.events.push({ type: "super", fighter: f.name });
+    }
+
+    this.projectiles.forEach((pr) => pr.update(dt, this.fighters));
+    this.blasts.forEach((b) => b.update(dt));
+    for (let i = this.projectiles.length - 1; i >= 0; i--) if (!this.projectiles[i].alive) this.projectiles.splice(i, 1);
+    for (let i = this.blasts.length - 1; i >= 0; i--) if (!this.blasts[i].alive) this.blasts.splice(i, 1);
+
+    const combatEvents: CombatEvent[] = [];
+    // combos end once their target is out of hitstun
+    this.combos.update(dt, this.fighters);
+    resolveCombat(this.fighters, this.projectiles, {
+      friendlyFire: this.friendlyFire,
+      rules: this.rules,
+      combos: this.combos,
+      isSolidAt: this.stage.isSolidAt,
+      spawnBlast: (owner, x, y, explosion) => {
+        const blast = (this.blastFactory || createBlast)(owner, x, y);
+        if (explosion) blast.arm(owner, explosion);
+        this.blasts.push(blast);
+      },
+      events: combatEvents,
+    }, this.blasts);
+    this.events.push(...combatEvents);
+
+    for (const f of this.fighters) {
+      if (f.isDefeated() && f.state !== "defeat") {
+        f.state = "defeat";
+        f.attacking1 = false;
+        f.attacking2 = false;
+        f.parrying = false;
+        f.ranging1 = false;
+        f.ranging2 = false;
+        f.vx = 0;
+        f.vy = 0;
+        f.anim.setState("defeat");
+        this.events.push({ type: "defeat", fighter: f.name });
+      }
+    }
+
+    this.tick++;
+    this.time += dt;
+    return this.snapshot();
+  }
+
+  snapshot(): SimulationState {
+    return {
+      tick: this.tick,
+      time: this.time,
+      fighters: this.fighters.map((f) => ({
+        name: f.name,
+        characterId: (f as any).characterId ?? null,
+        x: f.x,
+        y: f.y,
+        vx: f.vx,
+        vy: f.vy,
+        facing: f.facing,
+        state: f.state,
+        onGround: f.onGround,
+        damagePercent: f.damagePercent,
+        stocks: f.stocks,
+        hp: f.hp,
+        launched: f.launchedFromHit,
+        parrying: f.parrying,
+        hurt: f.hurt,
+      })),
+      projectiles: this.projectiles.map((pr) => ({ owner: pr.owner.name, x: pr.x, y: pr.y, vx: pr.vx, vy: pr.vy })),
+      blasts: this.blasts.length,
+      events: this.events.slice(),
+    };
+  }
+
+  /** The fighter an AI-controlled fighter should target. */
+  opponentOf(f: Fighter): Fighter | null {
+    // nearest fighter this one is allowed to hit
+    let best: Fighter | null = null;
+    let bestDist = Infinity;
+    for (const o of this.fighters) {
+      if (!canHit(f, o, this.friendlyFire)) continue;
+      const d = Math.abs(o.x - f.x) + Math.abs(o.y - f.y);
+      if (d < bestDist) { best = o; bestDist = d; }
+    }
+    return best;
+  }
+
+  // Stage collision: landing sweep, drop-through, ground support and fall-off.
+  private resolveStage(f: Fighter, dt: number, input: InputState) {
+    // hanging on a ledge: held in place until the fighter lets go
+    if (f.ledge) return;
+    // PHYSICS BUG FIX: If P2 is not on ground, not flying, and has zero vy,
+    // force gravity to kick in to prevent infinite hover state
+    if (f.name === "P2" && !f.onGround && !f.flying && f.vy === 0) {
+      f.vy = 40; // Force downward velocity
+    }
+
+    // EMERGENCY TELEPORT: If P2 falls too far below screen, teleport back to safe position
+    if (f.name === "P2" && f.y > this.height + 500 && this.stage.mainPlatformTop) {
+      const mainPlatTop = this.stage.mainPlatformTop();
+      f.y = mainPlatTop - f.h - 20; // Place slightly above platform
+      f.x = Math.max(100, Math.min(this.width - 100, f.x)); // Keep within screen bounds
+      f.vy = 0;
+      f.vx = 0;
+      f.onGround = false; // Let normal physics take over
+      console.error("[qte][physics] EMERGENCY TELEPORT: P2 fell too far, teleporting to safe position. new pos=", { x: f.x, y: f.y });
+    }
+    const prevFoot = f.y + f.h - f.vy * dt; // estimated previous foot y (canvas coords)
+    const foot = f.y + f.h;
+    const holdingDown = !!input[f.keys.down];
+
+    // If player is holding down while standing on ground, enable drop-through
+    if (f.onGround && holdingDown) {
+      f.onGround = false;
+      // give a small downward nudge so the character starts to fall through
+      f.vy = Math.max(f.vy, 40);
+    }
+
+    let landed = false;
+    if (f.vy >= 0) {
+      try {
+        const centerX = f.x + f.w * 0.5;
+        const hit = this.stage.findLanding
+          ? this.stage.findLanding(centerX, prevFoot, foot)
+          : this.sweepForSolid(centerX, prevFoot, foot);
+        if (hit !== null) {
+          landed = true;
+          // If player is holding down, skip landing (allow drop-through)
+          if (!holdingDown) f.landAt(hit - f.h);
+        }
+      } catch (e) {
+        console.warn("[qte] stage landing sweep failed", e);
+      }
+    }
+
+    // EMERGENCY FALLBACK: Only create a virtual ground if collision data is
+    // present but the sweep produced nothing. Without collision data entities
+    // should fall through (die) when off the mapped area.
+    if (!landed && this.stage.mainPlatformTop && (!this.stage.ready || this.stage.ready())) {
+      const mainPlatTop = this.stage.mainPlatformTop();
+      if (f.vy >= 0 && foot >= mainPlatTop && prevFoot <= mainPlatTop) {
+        f.landAt(mainPlatTop - f.h);
+        console.warn("[qte][physics] EMERGENCY FALLBACK: Using virtual ground at main platform level for", f.name);
+      }
+    }
+
+    // If the fighter appears to be standing but there's no solid ground under
+    // their feet, make them fall through
+    try {
+      if (f.onGround) {
+        const footY = Math.floor(f.y + f.h + 1);
+        // sample several points across the foot to decide support
+        const samples = 3;
+        let supported = false;
+        for (let i = 0; i < samples; i++) {
+          const sx = Math.floor(f.x + 2 + (i / (samples - 1)) * Math.max(0, f.w - 4));
+          if (this.stage.isSolidAt(sx, footY)) { supported = true; break; }
+        }
+        if (!supported) {
+          f.onGround = false;
+          f.vy = Math.max(f.vy, 40);
+        }
+      }
+    } catch (e) { /* defensive */ }
+
+    try {
+      this.grabLedge(f);
+    } catch (e) {
+      console.warn("[qte] ledge detection failed", e);
+    }
+
+    try {
+      f.wallCling = this.detectWall(f, input);
+    } catch (e) {
+      f.wallCling = 0;
+    }
+
+    if (f.y > this.fallThreshold || this.outsideBlastZone(f)) {
+      this.events.push({ type: "fall", fighter: f.name, ...(f.lastHitBy ? { by: f.lastHitBy } : {}) });
+      f.releaseGrab();
+      f.status.clear();
+      f.burnPending = 0;
+      f.resetFlight();
+      const removed = this.onFall ? this.onFall(f) : this.respawnOrDefeat(f);
+      f.lastHitBy = null;
+      if (removed) this.remove(f);
+    }
+  }
+
+  // Catch a fighter falling past a ledge with a hand near the edge (see ledge.ts)
+  private grabLedge(f: Fighter) {
+    if (f.onGround || f.flying || f.vy < 0 || f.heldBy || f.holding || f.stunTimer > 0 || f.ledgeRegrabTimer > 0 || f.state === "defeat") return;
+    const cx = f.x + f.w * 0.5;
+    const handY = f.y + f.h * LEDGE_HAND_HEIGHT;
+    const r = LEDGE_GRAB_RANGE;
+    for (const side of [-1, 1] as const) {
+      // the hand on the platform's side of the body
+      const handX = cx - side * f.w * LEDGE_HANG_OFFSET;
+      const ledge = findLedge(this.stage.isSolidAt, side, handX - r, handY - r, handX + r, handY + r);
+      // the body must already be past the edge, and one fighter per ledge
+      if (!ledge || (cx - ledge.x) * side <= 0) continue;
+      if (this.fighters.some((o) => o !== f && o.ledge && o.ledge.x === ledge.x && o.ledge.y === ledge.y)) continue;
+      f.grabLedge(ledge);
+      this.events.push({ type: "ledge", fighter: f.name });
+      return;
+    }
+  }
+
+  // Wall the fighter is pushing against in the air: 1 = right, -1 = left, 0 = none (see movement.ts)
+  private detectWall(f: Fighter, input: InputState): number {
+    if (!f.movement.wallJump || f.onGround || f.flying || f.ledge || f.heldBy || f.state === "defeat") return 0;
+    const dir = input[f.keys.right] ? 1 : input[f.keys.left] ? -1 : 0;
+    if (dir === 0) return 0;
+    const body = f.rect();
+    const probeX = Math.floor(dir > 0 ? body.x + body.w + WALL_PROBE : body.x - WALL_PROBE);
+    // sample the upper and lower body so floors and ceiling edges don't count as walls
+    for (const t of [0.3, 0.7]) {
+      if (!this.stage.isSolidAt(probeX, Math.floor(body.y + body.h * t))) return 0;
+    }
+    return dir;
+  }
+
+  // Side/top blast zone (sudden death); the sprite center must leave it
+  private outsideBlastZone(f: Fighter): boolean {
+    const z = this.blastZone;
+    if (!z || f.state === "defeat") return false;
+    const cx = f.x + f.w * 0.5;
+    const cy = f.y + f.h * 0.5;
+    return cx < z.left || cx > z.right || cy < z.top || cy > z.bottom;
+  }
+
+  private sweepForSolid(x: number, fromY: number, toY: number): number | null {
+    if (toY < fromY) return null;
+    for (let y = Math.floor(fromY); y <= Math.floor(toY); y++) {
+      if (this.stage.isSolidAt(x, y)) return y;
+    }
+    return null;
+  }
+
+  // Default fall handling for headless matches: lose a stock and respawn, or be defeated.
+  private respawnOrDefeat(f: Fighter): boolean {
+    if (fallCostsStock(this.rules)) f.stocks = Math.max(0, f.stocks - 1);
+    f.vx = 0;
+    f.vy = 0;
+    if (f.stocks <= 0) {
+      f.state = "defeat";
+      f.anim.setState("defeat");
+      (f as any)._frozen = true;
+      this.events.push({ type: "defeat", fighter: f.name });
+      return false;
+    }
+    const sp = this.spawnPoints.get(f) || { x: this.width * 0.5 - f.w * 0.5, y: 0 };
+    f.x = sp.x;
+    f.y = sp.y;
+    f.onGround = false;
+    f.damagePercent = 0;
+    f.launchedFromHit = false;
+    f.hurt = false;
+    f.hurtTimer = 0;
+    f.stunTimer = 0;
+    return false;
+  }
+
+  private remove(f: Fighter) {
+    if (this.p1 === f) this.p1 = null;
+    if (this.p2 === f) this.p2 = null;
+    this.players = this.players.filter((p) => p !== f);
+    this.npcs = this.npcs.filter((n) => n !== f);
+    this.controllers.delete(f);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Headless entry point
+// ---------------------------------------------------------------------------
+
+/** Subset of a section.json the headless simulation understands. */
+export interface SectionData {
+  section_key?: string;
+  resolution?: [number, number];
+  spawn_points?: { name: string; x: number; y: number }[] | null;
+}
+
+export interface SimulationOptions {
+  /** character id for P1 (see CHARACTERS in assetRegistry) */
+  p1: string;
+  /** character id for P2; omit or null for a solo run */
+  p2?: string | null;
+  /** section data used for spawn points (section.json contents) */
+  section?: SectionData | null;
+  /** character ids for P3/P4 in three- and four-player matches */
+  extraPlayers?: string[];
+  /** team id per player slot (index 0 = P1); players without one fight alone */
+  teams?: string[];
+  /** allow hits between teammates */
+  friendlyFire?: boolean;
+  /** match rules applied to every player (default: 3-stock) */
+  rules?: MatchRules;
+  /** true (or { p2: true }) to let SimpleAI drive P2 */
+  ai?: boolean | { p2?: boolean };
+  /** injectable collision query; defaults to a flat floor at 80% of height */
+  isSolidAt?: SolidQuery;
+  width?: number;
+  height?: number;
+  /** explicit spawn positions (top-left of sprite); override section spawn points */
+  spawns?: { p1?: { x: number; y: number }; p2?: { x: number; y: number }; extra?: { x: number; y: number }[] };
+}
+
+/**
+ * Build a Simulation with no canvas, DOM or image loading. Fighters use the
+ * registry's sprite configs for frame counts only.
+ */
+export function createSimulation(opts: SimulationOptions): Simulation {
+  const width = opts.width ?? 1920;
+  const height = opts.height ?? 1080;
+  const floorY = Math.floor(height * 0.8);
+  const isSolidAt: SolidQuery = opts.isSolidAt ?? ((_x, y) => y >= floorY);
+  const sim = new Simulation({ width, height, stage: { isSolidAt }, rules: opts.rules });
+  sim.friendlyFire = !!opts.friendlyFire;
+  const team = (slot: number) => opts.teams?.[slot];
+
+  const fromSection = (name: string) => {
+    const sp = opts.section?.spawn_points?.find((s) => s.name === name);
+    if (!sp) return null;
+    const [sw, sh] = opts.section?.resolution || [width, height];
+    // same mapping/offset the game uses for section spawn points
+    return { x: Math.floor((sp.x / sw) * width), y: Math.floor((sp.y / sh) * height) - 250 };
+  };
+
+  const p1Spawn = opts.spawns?.p1 ?? fromSection("player_start") ?? { x: 100, y: floorY - 256 };
+  sim.p1 = createHeadlessFighter(opts.p1, 0, p1Spawn, width, height, team(0));
+  sim.spawnPoints.set(sim.p1, { ...p1Spawn });
+
+  if (opts.p2) {
+    const p2Spawn = opts.spawns?.p2 ?? fromSection("npc_spawn_1") ?? { x: width - 100 - 256, y: floorY - 256 };
+    sim.p2 = createHeadlessFighter(opts.p2, 1, p2Spawn, width, height, team(1));
+    sim.p2.facing = -1;
+    sim.spawnPoints.set(sim.p2, { ...p2Spawn });
+
+    const aiForP2 = opts.ai === true || (typeof opts.ai === "object" && !!opts.ai.p2);
+    if (aiForP2) {
+      sim.controllers.set(sim.p2, new SimpleAI({
+        keys: { left: P2_KEYS.left, right: P2_KEYS.right, up: P2_KEYS.up, attack1: P2_KEYS.attack1, parry: P2_KEYS.parry },
+        isSolidAt,
+        canvasW: width,
+        canvasH: height,
+        spawnX: p2Spawn.x,
+        simplePatrol: true,
+        patrolDistance: 150,
+      }));
+    }
+  }
+
+  (opts.extraPlayers || []).slice(0, PLAYER_KEYS.length - 2).forEach((characterId, i) => {
+    const slot = i + 2;
+    // P3 stands left of center, P4 right of center
+    const spawn = opts.spawns?.extra?.[i] ?? { x: Math.floor(width * (i === 0 ? 0.35 : 0.65)), y: p1Spawn.y };
+    const f = createHeadlessFighter(characterId, slot, spawn, width, height, team(slot));
+    if (i === 1) f.facing = -1;
+    sim.players.push(f);
+    sim.spawnPoints.set(f, { ...spawn });
+  });
+  for (const f of sim.fighters) applyMatchRules(f, sim.rules);
+  return sim;
+}
+
+// slot is the player index (0 = P1); it picks the name, key bindings and facing side
+function createHeadlessFighter(characterId: string, slot: number, spawn: { x: number; y: number }, width: number, height: number, team?: string): Fighter {
+  const config = getCharacterConfig(characterId);
+  if (!config) throw new Error(`[simulation] unknown character '${characterId}'`);
+  const name = `P${slot + 1}`;
+  const f = new Fighter({
+    x: spawn.x,
+    y: spawn.y,
+    color: config.color,
+    keys: PLAYER_KEYS[slot] as any,
+    name,
+    team,
+    characterId: config.name,
+    spriteConfig: buildSpriteConfig(config.folder, config.overrides),
+    ctx: null,
+    canvasWidth: width,
+    canvasHeight: height,
+    muzzleOffset: slot % 2 === 0 ? { x: 36, y: -48 } : { x: -36, y: -48 },
+  });
+  // stage collision comes from the injected query, not the legacy canvas floor
+  f.allowGroundCollision = false;
+  const alt = getTransformForm(config.name);
+  if (alt) f.setAlternateForm(alt.name, buildSpriteConfig(alt.folder, alt.overrides));
+  // spawn airborne and let the first steps land the fighter on the stage
+  f.onGround = false;
+  return f;
+}
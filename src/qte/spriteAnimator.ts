@@ -26,6 +26,11 @@ function defaultFramesFromFilename(src: string, fallback: number): number {
   }
 }
 
+// Non-looping states that hold their last frame instead of returning to idle
+// (`defeat` is terminal, `shield` lasts as long as the shield is held, `ledge`
+// as long as the fighter hangs on the ledge).
+const HOLD_STATES = new Set(["defeat", "shield", "ledge"]);
+
 /**
  * SpriteAnimator – verwaltet Frame-basierte Sprite-Sheet-Animationen.
  *  ‑ Jede Animation liegt in einer PNG-Reihe (Frames horizontal).
@@ -72,7 +77,8 @@ export class SpriteAnimator {
         imageBroken: a.imageBroken,
       } as AnimationDef;
       // Preload image (optional) - only if no atlas image is provided
-      if (full.src && !full.image) {
+      // (and only when Image exists, i.e. not in headless simulations)
+      if (full.src && !full.image && typeof Image !== "undefined") {
         const img = new Image();
         full.image = img;
         full.imageLoaded = false;
@@ -135,12 +141,12 @@ export class SpriteAnimator {
 
     // If we're currently waiting to display the final frame of a
     // non-looping animation, count down and then auto-reset to `idle`
-    // (except for terminal states like `defeat`).
+    // (except for the HOLD_STATES above).
     if (this.waitingForCompletion) {
       this.completionDelay -= dt;
       if (this.completionDelay <= 0) {
         this.waitingForCompletion = false;
-        if (this.state !== "defeat") this.setState("idle");
+        if (!HOLD_STATES.has(this.state)) this.setState("idle");
       }
       return;
     }
@@ -0,0 +1,97 @@
+// Status effects applied by moves and projectiles (MoveDef.status,
+// ProjectileSpawn.status). Each fighter owns a StatusEffects component that
+// is ticked in Fighter.update:
+//  - burn: `strength` percent per second (under stamina rules one ranged hit's
+//    HP per DEFAULT_PROJECTILE_DAMAGE.percent burned, see applyBurn in combat.ts)
+//  - freeze: stuns for the whole duration (the sprite stops animating)
+//  - slow: walk and fly speed are multiplied by `strength`
+//  - poison: healing (stamina HP regeneration, see regenerateHp in matchRules.ts,
+//    and shield regeneration) is multiplied by `strength`
+
+export type StatusKind = "burn" | "freeze" | "slow" | "poison";
+
+export interface StatusEffectDef {
+  kind: StatusKind;
+  /** seconds */
+  duration: number;
+  /** burn: percent per second; slow/poison: multiplier; unused for freeze (default from STATUS_STYLES) */
+  strength?: number;
+}
+
+export interface ActiveStatus {
+  kind: StatusKind;
+  remaining: number;
+  duration: number;
+  strength: number;
+}
+
+/** Default strength, HUD icon and sprite tint (canvas filter) per effect. */
+export const STATUS_STYLES: Record<StatusKind, { strength: number; color: string; label: string; filter: string }> = {
+  burn: { strength: 4, color: "#ff7b22", label: "B", filter: "sepia(1) saturate(4) hue-rotate(-30deg)" },
+  freeze: { strength: 1, color: "#7fd8ff", label: "F", filter: "grayscale(1) sepia(1) hue-rotate(160deg) saturate(3) brightness(1.2)" },
+  slow: { strength: 0.5, color: "#b0b0b0", label: "S", filter: "grayscale(0.7)" },
+  poison: { strength: 0.25, color: "#7ddf3a", label: "P", filter: "sepia(1) hue-rotate(50deg) saturate(3)" },
+};
+
+// draw order of the tint when several effects are active (first wins)
+const TINT_PRIORITY: StatusKind[] = ["freeze", "burn", "poison", "slow"];
+
+export class StatusEffects {
+  private readonly effects = new Map<StatusKind, ActiveStatus>();
+
+  /** Apply an effect; re-applying refreshes it (the longer duration and stronger value win). */
+  apply(def: StatusEffectDef) {
+    const strength = def.strength ?? STATUS_STYLES[def.kind].strength;
+    const current = this.effects.get(def.kind);
+    if (!current) {
+      this.effects.set(def.kind, { kind: def.kind, remaining: def.duration, duration: def.duration, strength });
+      return;
+    }
+    if (def.duration > current.remaining) {
+      current.remaining = def.duration;
+      current.duration = def.duration;
+    }
+    // burn: more damage is stronger; slow/poison: a lower multiplier is stronger
+    current.strength = def.kind === "burn" ? Math.max(current.strength, strength) : Math.min(current.strength, strength);
+  }
+
+  /** Advance all effects by `dt`; returns the burn damage (percent) dealt this tick. */
+  update(dt: number): number {
+    let burn = 0;
+    for (const [kind, e] of this.effects) {
+      const t = Math.min(dt, e.remaining);
+      if (kind === "burn") burn += e.strength * t;
+      e.remaining -= dt;
+      if (e.remaining <= 0) this.effects.delete(kind);
+    }
+    return burn;
+  }
+
+  has(kind: StatusKind): boolean {
+    return this.effects.has(kind);
+  }
+
+  /** Multiplier for walk and fly speed. */
+  speedMultiplier(): number {
+    return this.effects.get("slow")?.strength ?? 1;
+  }
+
+  /** Multiplier for any healing (stamina HP and shield regeneration). */
+  healingMultiplier(): number {
+    return this.effects.get("poison")?.strength ?? 1;
+  }
+
+  /** Canvas filter for the sprite, or null when no effect is active. */
+  tint(): string | null {
+    const kind = TINT_PRIORITY.find((k) => this.effects.has(k));
+    return kind ? STATUS_STYLES[kind].filter : null;
+  }
+
+  active(): ActiveStatus[] {
+    return Array.from(this.effects.values());
+  }
+
+  clear() {
+    this.effects.clear();
+  }
+}
@@ -0,0 +1,33 @@
+// Super meter. Every fighter fills a meter from dealing damage, taking
+// damage and successful parries (read from the combat pass's events). A full
+// enough meter is spent on the super (ranged1 + ranged2 pressed together),
+// a character-specific move from the move-set (MoveSet.super) with its own
+// animation and invulnerability. Starting a super pauses the whole match for
+// SuperDef.freeze seconds (Simulation) as a cinematic freeze.
+
+import type { Fighter } from "./fighter";
+import type { CombatEvent } from "./combat";
+
+export const MAX_METER = 100;
+/** meter per percent dealt */
+export const METER_PER_DAMAGE_DEALT = 1.0;
+/** meter per percent taken */
+export const METER_PER_DAMAGE_TAKEN = 0.5;
+export const METER_PER_PARRY = 15;
+// blocked hits count as a little damage dealt (chip) for the attacker
+export const METER_PER_BLOCK = 2;
+
+/** Fill the meters of the fighters named in `events`. */
+export function awardMeter(combatants: Fighter[], events: CombatEvent[]) {
+  const byName = (name: string) => combatants.find((f) => f.name === name);
+  for (const e of events) {
+    if (e.type === "hit") {
+      byName(e.attacker)?.gainMeter(e.damage * METER_PER_DAMAGE_DEALT);
+      byName(e.target)?.gainMeter(e.damage * METER_PER_DAMAGE_TAKEN);
+    } else if (e.type === "parry") {
+      byName(e.defender)?.gainMeter(METER_PER_PARRY);
+    } else if (e.type === "block") {
+      byName(e.attacker)?.gainMeter(METER_PER_BLOCK);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+// Transform (□): swaps a fighter into its alternate form
+// (CharacterConfig.transformInto), which has its own atlas, move-set, frame
+// data and launch physics. The transform animation locks out actions for
+// TRANSFORM_ANIM_TIME; the form reverts after TRANSFORM_DURATION (once the
+// current action has finished) and the next transform is gated by
+// TRANSFORM_COOLDOWN from the revert.
+
+import type { SpriteAnimator } from "./spriteAnimator";
+import { getCharacterConfig, type CharacterConfig } from "./assetRegistry";
+
+/** seconds spent in the alternate form */
+export const TRANSFORM_DURATION = 12;
+/** seconds after reverting before the next transform */
+export const TRANSFORM_COOLDOWN = 10;
+/** seconds of the transform animation (no actions) */
+export const TRANSFORM_ANIM_TIME = 0.5;
+
+/** A character form a fighter can switch into: registry id + its animator. */
+export interface FighterForm {
+  characterId: string;
+  anim: SpriteAnimator;
+}
+
+/** Alternate form of `characterId`, or null when the character can't transform. */
+export function getTransformForm(characterId: string | null | undefined): CharacterConfig | null {
+  const config = characterId ? getCharacterConfig(characterId) : null;
+  return config && config.transformInto ? getCharacterConfig(config.transformInto) : null;
+}
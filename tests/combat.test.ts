@@ -0,0 +1,83 @@
+import { Fighter, Projectile } from '../src/qte/fighter';
+import { resolveCombat, canHit, type CombatEvent } from '../src/qte/combat';
+import { P1_PROJECTILE_SRC } from '../src/qte/assetRegistry';
+import { makeFighter } from './fighters';
+
+function swing(f: Fighter) {
+  f.attacking1 = true;
+  f.state = 'attack1';
+  f.anim.setState('attack1');
+  f.anim.frame = 1;
+  f.meleeVictims = [];
+}
+
+describe('combat resolution', () => {
+  test('one swing hits every overlapping enemy once, never a teammate', () => {
+    const p1 = makeFighter('P1', 'ninja', 400);
+    const granny = makeFighter('Granny', 'granny', 520, { team: 'npc' });
+    const npc = makeFighter('NPC', 'cyboard', 530, { team: 'npc' });
+    const events: CombatEvent[] = [];
+    const ctx = { spawnBlast: () => {}, events };
+    swing(p1);
+    resolveCombat([p1, granny, npc], [], ctx);
+    resolveCombat([p1, granny, npc], [], ctx);
+    expect(events.map((e) => e.type === 'hit' && e.target)).toEqual(['Granny', 'NPC']);
+
+    // Granny swinging into her teammate does nothing
+    events.length = 0;
+    granny.facing = 1;
+    swing(granny);
+    granny.anim.frame = 3;
+    resolveCombat([granny, npc], [], ctx);
+    expect(events).toEqual([]);
+    expect(canHit(granny, npc, true)).toBe(true);
+  });
+
+  test('projectiles skip the owner\'s team and blast on the first enemy', () => {
+    const p1 = makeFighter('P1', 'ninja', 900);
+    const granny = makeFighter('Granny', 'granny', 100, { team: 'npc' });
+    const npc = makeFighter('NPC', 'cyboard', 500, { team: 'npc' });
+    const pr = new Projectile(860, 500, 600, 0, granny, P1_PROJECTILE_SRC, 6);
+    const blasts: any[] = [];
+    const events: CombatEvent[] = [];
+    resolveCombat([p1, granny, npc], [pr], { spawnBlast: (owner) => blasts.push(owner), events });
+    expect(pr.alive).toBe(false);
+    expect(events).toEqual([{ type: 'hit', kind: 'projectile', attacker: 'Granny', target: 'P1', damage: 8, knockback: p1.lastKnockback }]);
+    expect(p1.hitstop).toBeGreaterThan(0);
+    expect(granny.hitstop).toBe(0);
+    expect(blasts).toEqual([granny]);
+  });
+
+  test('opposing projectiles cancel each other with a blast between them', () => {
+    const p1 = makeFighter('P1', 'ninja', 100);
+    const p2 = makeFighter('P2', 'cyboard', 1600, { team: 'team2' });
+    const a = new Projectile(700, 300, 600, 0, p1, P1_PROJECTILE_SRC, 6);
+    const b = new Projectile(800, 300, -600, 0, p2, P1_PROJECTILE_SRC, 6);
+    const own = new Projectile(750, 300, 600, 0, p1, P1_PROJECTILE_SRC, 6);
+    const blasts: { x: number; y: number }[] = [];
+    const events: CombatEvent[] = [];
+    resolveCombat([p1, p2], [a, b, own], { spawnBlast: (_o, x, y) => blasts.push({ x, y }), events });
+    expect(a.alive).toBe(false);
+    expect(b.alive).toBe(false);
+    expect(own.alive).toBe(true);
+    expect(events).toEqual([{ type: 'clash', owners: ['P1', 'P2'], x: 878, y: 428 }]);
+    expect(blasts).toEqual([{ x: 878, y: 428 }]);
+  });
+
+  test('a parried projectile is reflected back at its shooter', () => {
+    const p1 = makeFighter('P1', 'ninja', 900);
+    const p2 = makeFighter('P2', 'cyboard', 100, { team: 'team2' });
+    p1.parrying = true;
+    const pr = new Projectile(860, 500, 600, -50, p2, P1_PROJECTILE_SRC, 6);
+    pr.age = 0.5;
+    const events: CombatEvent[] = [];
+    resolveCombat([p1, p2], [pr], { spawnBlast: () => {}, events });
+    expect(events).toEqual([{ type: 'parry', kind: 'projectile', attacker: 'P2', defender: 'P1' }]);
+    expect(pr.alive).toBe(true);
+    expect(pr.owner).toBe(p1);
+    expect(pr.vx).toBe(-900);
+    expect(pr.vy).toBe(75);
+    expect(pr.age).toBe(0);
+    expect(p1.damagePercent).toBe(0);
+  });
+});
@@ -0,0 +1,40 @@
+import { hitstunSeconds, ComboTracker } from '../src/qte/combo';
+import { createSimulation } from '../src/qte/simulation';
+import { P2_KEYS } from '../src/qte/input';
+
+describe('hitstun and combos', () => {
+  const isSolidAt = (_x: number, y: number) => y >= 800;
+
+  test('hitstun grows with knockback and shrinks within a combo', () => {
+    expect(hitstunSeconds(300)).toBeGreaterThan(hitstunSeconds(150));
+    expect(hitstunSeconds(300, 3)).toBeLessThan(hitstunSeconds(300, 1));
+  });
+
+  test('hits during hitstun continue the combo, later hits start a new one', () => {
+    const sim = createSimulation({ p1: 'ninja', p2: 'cyboard', isSolidAt });
+    const [p1, p2] = sim.fighters;
+    const combos = new ComboTracker();
+    combos.registerHit(p1, p2, 10);
+    p2.stunTimer = 0.3;
+    combos.registerHit(p1, p2, 12);
+    expect(combos.comboOf('P1')).toMatchObject({ hits: 2, damage: 22, active: true });
+
+    p2.stunTimer = 0;
+    combos.update(1 / 60, sim.fighters);
+    expect(combos.comboOf('P1')!.active).toBe(false);
+    combos.registerHit(p1, p2, 5);
+    expect(combos.comboOf('P1')).toMatchObject({ hits: 1, damage: 5 });
+  });
+
+  test('a fighter in hitstun cannot attack', () => {
+    const sim = createSimulation({ p1: 'ninja', p2: 'cyboard', isSolidAt });
+    for (let i = 0; i < 30; i++) sim.step({});
+    const p2 = sim.p2!;
+    p2.stunTimer = 0.2;
+    sim.step({ [P2_KEYS.attack1]: true });
+    expect(p2.attacking1).toBe(false);
+    for (let i = 0; i < 12; i++) sim.step({});
+    sim.step({ [P2_KEYS.attack1]: true });
+    expect(p2.attacking1).toBe(true);
+  });
+});
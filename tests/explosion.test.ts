@@ -0,0 +1,51 @@
+import { Projectile, Blast } from '../src/qte/fighter';
+import { resolveCombat, type CombatEvent } from '../src/qte/combat';
+import { getProjectileType, type ExplosionDef } from '../src/qte/moves';
+import { P1_PROJECTILE_SRC, P1_BLAST_SRC } from '../src/qte/assetRegistry';
+import { makeFighter } from './fighters';
+
+describe('explosions', () => {
+  const explosion: ExplosionDef = { radius: 200, damage: { percent: 20, baseKB: 100, strength: 1 }, falloff: 0.5 };
+
+  test('a blast hits everyone in its radius once, weaker towards the edge', () => {
+    const p1 = makeFighter('P1', 'ninja', 500);
+    const near = makeFighter('Near', 'cyboard', 700);
+    const far = makeFighter('Far', 'granny', 900);
+    const out = makeFighter('Out', 'cyboard', 1400);
+    const blast = new Blast(800, 620, P1_BLAST_SRC, 4);
+    blast.arm(p1, explosion);
+    const events: CombatEvent[] = [];
+    const ctx = { spawnBlast: () => {}, events };
+    resolveCombat([p1, near, far, out], [], ctx, [blast]);
+    resolveCombat([p1, near, far, out], [], ctx, [blast]);
+    expect(events.map((e) => e.type === 'hit' && e.target)).toEqual(['Near', 'Far']);
+    expect(near.damagePercent).toBe(20);
+    expect(far.damagePercent).toBeGreaterThan(10);
+    expect(far.damagePercent).toBeLessThan(20);
+    expect(p1.damagePercent).toBe(0);
+    expect(far.lastHitBy).toBe('P1');
+  });
+
+  test('grenades detonate on contact or when the fuse runs out', () => {
+    const p1 = makeFighter('P1', 'ninja', 100);
+    const p2 = makeFighter('P2', 'cyboard', 900);
+    const grenade = getProjectileType('grenade');
+    const spawned: (ExplosionDef | undefined)[] = [];
+    const ctx = { spawnBlast: (_o: any, _x: number, _y: number, ex?: ExplosionDef) => spawned.push(ex), events: [] as CombatEvent[] };
+
+    const fused = new Projectile(300, 100, 0, 0, p1, P1_PROJECTILE_SRC, 6);
+    fused.type = grenade;
+    fused.lifespan = 0.5;
+    for (let i = 0; i < 40; i++) fused.update(1 / 60);
+    expect(fused.alive).toBe(true);
+    resolveCombat([p1, p2], [fused], ctx);
+    expect(fused.alive).toBe(false);
+
+    const thrown = new Projectile(860, 500, 400, 0, p1, P1_PROJECTILE_SRC, 6);
+    thrown.type = grenade;
+    resolveCombat([p1, p2], [thrown], ctx);
+    expect(thrown.alive).toBe(false);
+    expect(ctx.events).toEqual([]); // no direct hit, only the explosion
+    expect(spawned).toEqual([grenade.explosion, grenade.explosion]);
+  });
+});
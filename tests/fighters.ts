@@ -0,0 +1,20 @@
+import { Fighter } from '../src/qte/fighter';
+import { buildSpriteConfig, getCharacterConfig } from '../src/qte/assetRegistry';
+import { P1_KEYS, type KeyBindings } from '../src/qte/input';
+
+// Fighter takes a plain action -> code map; KeyBindings leaves some actions unbound
+function keyMap(keys: KeyBindings): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const [action, code] of Object.entries(keys)) if (code) map[action] = code;
+  return map;
+}
+
+/** A headless fighter (no canvas) of `characterId` standing at `x`. */
+export function makeFighter(name: string, characterId: string, x: number, opts: { y?: number; team?: string; keys?: KeyBindings } = {}) {
+  const config = getCharacterConfig(characterId)!;
+  return new Fighter({
+    x, y: opts.y ?? 500, color: config.color, keys: keyMap(opts.keys ?? P1_KEYS), name, team: opts.team, characterId,
+    spriteConfig: buildSpriteConfig(config.folder, config.overrides),
+    ctx: null, canvasWidth: 1920, canvasHeight: 1080,
+  });
+}
@@ -0,0 +1,31 @@
+import { FixedStepLoop, FIXED_DT } from '../src/qte/fixedStep';
+
+describe('FixedStepLoop', () => {
+  test('runs whole ticks and carries the remainder', () => {
+    const loop = new FixedStepLoop(FIXED_DT);
+    const dts: number[] = [];
+
+    // 2.5 ticks worth of time -> 2 ticks now, the half tick is kept
+    expect(loop.advance(FIXED_DT * 2.5, (dt) => dts.push(dt))).toBe(2);
+    expect(dts).toEqual([FIXED_DT, FIXED_DT]);
+    expect(loop.alpha).toBeCloseTo(0.5);
+
+    // another half tick completes the third step
+    expect(loop.advance(FIXED_DT * 0.5, (dt) => dts.push(dt))).toBe(1);
+    expect(loop.tick).toBe(3);
+  });
+
+  test('tick count is independent of how frame time is sliced', () => {
+    const coarse = new FixedStepLoop();
+    const fine = new FixedStepLoop();
+    for (let i = 0; i < 10; i++) coarse.advance(0.1, () => {});
+    for (let i = 0; i < 100; i++) fine.advance(0.01, () => {});
+    expect(coarse.tick).toBe(60);
+    expect(fine.tick).toBe(60);
+  });
+
+  test('clamps huge frame gaps', () => {
+    const loop = new FixedStepLoop(FIXED_DT, 0.25);
+    expect(loop.advance(10, () => {})).toBe(15);
+  });
+});
@@ -0,0 +1,59 @@
+import { getFlyCapacity, DEFAULT_FLY_CAPACITY } from '../src/qte/flight';
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS } from '../src/qte/input';
+
+describe('flight stamina', () => {
+  const setup = () => {
+    const sim = createSimulation({
+      p1: 'granny',
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 200, y: 544 }, p2: { x: 900, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+
+  test('capacity comes from the character data', () => {
+    expect(getFlyCapacity('granny')).toBe(3.0);
+    expect(getFlyCapacity('laurin2')).toBe(2.5);
+    expect(getFlyCapacity('ninja')).toBe(DEFAULT_FLY_CAPACITY);
+  });
+
+  test('flying drains the gauge; running dry forces a helpless fall until landing', () => {
+    const sim = setup();
+    const p1 = sim.p1!;
+    const fly = { [P1_KEYS.dodge!]: true, [P1_KEYS.up]: true };
+    sim.step(fly);
+    expect(p1.flying).toBe(true);
+    for (let i = 0; i < 60; i++) sim.step(fly);
+    expect(p1.flyStamina).toBeCloseTo(p1.flyCapacity - 61 / 60, 5);
+    for (let i = 0; i < Math.ceil(p1.flyCapacity * 60); i++) sim.step(fly);
+    expect(p1.flying).toBe(false);
+    expect(p1.helpless).toBe(true);
+    // no flight, jumps or attacks while helpless
+    const y = p1.y;
+    sim.step({ ...fly, [P1_KEYS.attack1]: true });
+    expect(p1.flying).toBe(false);
+    expect(p1.attacking1).toBe(false);
+    expect(p1.y).toBeGreaterThanOrEqual(y);
+
+    for (let i = 0; i < 240 && !p1.onGround; i++) sim.step({});
+    expect(p1.onGround).toBe(true);
+    sim.step({});
+    expect(p1.helpless).toBe(false);
+    // the gauge refills on the ground
+    for (let i = 0; i < 180; i++) sim.step({});
+    expect(p1.flyStamina).toBe(p1.flyCapacity);
+  });
+
+  test('stamina does not regenerate in the air', () => {
+    const sim = setup();
+    const p1 = sim.p1!;
+    for (let i = 0; i < 30; i++) sim.step({ [P1_KEYS.dodge!]: true, [P1_KEYS.up]: true });
+    const left = p1.flyStamina;
+    for (let i = 0; i < 10; i++) sim.step({});
+    expect(p1.onGround).toBe(false);
+    expect(p1.flyStamina).toBe(left);
+  });
+});
@@ -0,0 +1,49 @@
+import { getFrameData, boxToWorld, FRAME_DATA } from '../src/qte/frameData';
+import { createSimulation } from '../src/qte/simulation';
+
+describe('frame data', () => {
+  test('ninja jab starts earlier than the granny cane, the cane reaches further', () => {
+    expect(getFrameData('ninja', 'attack1', 1)?.hitboxes?.length).toBe(1);
+    expect(getFrameData('granny', 'attack1', 1)).toBeNull();
+
+    const jab = getFrameData('ninja', 'attack1', 1)!.hitboxes![0];
+    const cane = getFrameData('granny', 'attack1', 3)!.hitboxes![0];
+    expect(cane.x + cane.w).toBeGreaterThan(jab.x + jab.w);
+  });
+
+  test('animations without a table report undefined (legacy boxes)', () => {
+    expect(getFrameData('ninja', 'ranged1', 0)).toBeUndefined();
+    expect(getFrameData('unknown', 'attack1', 0)).toBeUndefined();
+    expect(FRAME_DATA.laurin2).toBe(FRAME_DATA.laurin);
+  });
+
+  test('boxes are mirrored when facing left', () => {
+    const box = { x: 180, y: 110, w: 70, h: 40 };
+    expect(boxToWorld(box, 100, 0, 256, 1).x).toBe(280);
+    expect(boxToWorld(box, 100, 0, 256, -1).x).toBe(100 + 256 - 180 - 70);
+  });
+
+  test('fighter hitboxes follow the animation frame', () => {
+    const sim = createSimulation({ p1: 'ninja', isSolidAt: () => false });
+    const f = sim.p1!;
+    f.state = 'attack1';
+    f.anim.setState('attack1');
+    f.anim.frame = 0;
+    expect(f.activeHitboxes()).toEqual([]);
+    f.anim.frame = 2;
+    expect(f.hitbox()).toEqual({ x: f.x + 180, y: f.y + 110, w: 70, h: 40 });
+  });
+
+  test('the hitbox angle sets the launch direction and knockback its speed', () => {
+    const launch = (angleDeg: number, baseKB: number) => {
+      const f = createSimulation({ p1: 'laurin', isSolidAt: () => false }).p1!;
+      f.damagePercent = 60;
+      // attacker on the right: the angle is used as is
+      f.receiveHit(10, baseKB, 1, (angleDeg * Math.PI) / 180);
+      return { angle: (Math.atan2(-f.vy, -f.vx) * 180) / Math.PI, speed: Math.hypot(f.vx, f.vy) };
+    };
+    expect(launch(20, 140).angle).toBeCloseTo(20);
+    expect(launch(80, 140).angle).toBeCloseTo(80);
+    expect(launch(45, 300).speed).toBeGreaterThan(launch(45, 100).speed);
+  });
+});
@@ -0,0 +1,47 @@
+import { THROWS, throwDirection } from '../src/qte/grab';
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS, P2_KEYS } from '../src/qte/input';
+
+describe('grab and throw', () => {
+  const setup = () => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 400, y: 544 }, p2: { x: 520, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+
+  test('throw direction is relative to facing', () => {
+    expect(throwDirection({ x: 1, y: 0 }, 1)).toBe('forward');
+    expect(throwDirection({ x: 1, y: 0 }, -1)).toBe('back');
+    expect(throwDirection({ x: 0, y: 1 }, -1)).toBe('up');
+    expect(throwDirection({ x: 0, y: 0 }, 1)).toBeNull();
+  });
+
+  test('a grab beats a shield and ends in the chosen throw', () => {
+    const sim = setup();
+    const events: any[] = [];
+    for (let i = 0; i < 10; i++) events.push(...sim.step({ [P2_KEYS.shield!]: true, [P1_KEYS.grab!]: i === 2 }).events);
+    expect(events).toContainEqual({ type: 'grab', attacker: 'P1', target: 'P2' });
+    expect(sim.p2!.shielding).toBe(false);
+    expect(sim.p2!.heldBy).toBe(sim.p1);
+    for (let i = 0; i < 30; i++) events.push(...sim.step({ [P1_KEYS.up]: true }).events);
+    const thrown = events.find((e) => e.type === 'hit');
+    expect(thrown).toMatchObject({ kind: 'throw', attacker: 'P1', target: 'P2', damage: THROWS.up.damage });
+    expect(sim.p2!.heldBy).toBeNull();
+    expect(sim.p2!.damagePercent).toBe(THROWS.up.damage);
+    expect(sim.p2!.lastHitBy).toBe('P1');
+  });
+
+  test('a parry does not stop a grab and the hold ends in a forward throw', () => {
+    const sim = setup();
+    const events: any[] = [];
+    for (let i = 0; i < 5; i++) events.push(...sim.step({ [P2_KEYS.parry]: i === 0, [P1_KEYS.grab!]: i === 1 }).events);
+    expect(events.some((e) => e.type === 'grab')).toBe(true);
+    for (let i = 0; i < 90; i++) events.push(...sim.step({}).events);
+    expect(events.find((e) => e.type === 'hit')).toMatchObject({ kind: 'throw', damage: THROWS.forward.damage });
+  });
+});
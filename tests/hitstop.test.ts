@@ -0,0 +1,44 @@
+import { hitstopFrames, ScreenShake, MAX_HITSTOP_FRAMES } from '../src/qte/hitstop';
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS } from '../src/qte/input';
+
+describe('hitstop and screen shake', () => {
+  test('harder hits freeze longer, up to a cap', () => {
+    expect(hitstopFrames(30)).toBeGreaterThan(hitstopFrames(8));
+    expect(hitstopFrames(999)).toBe(MAX_HITSTOP_FRAMES);
+  });
+
+  test('both fighters hold still during hitstop, then knockback resumes', () => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 400, y: 544 }, p2: { x: 580, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    sim.p2!.damagePercent = 40;
+    let frames = 0;
+    for (let i = 0; i < 30 && !frames; i++) {
+      const state = sim.step({ [P1_KEYS.attack1]: i < 5 });
+      const hit = state.events.find((e) => e.type === 'hit');
+      if (hit && hit.type === 'hit') frames = hitstopFrames(hit.damage);
+    }
+    expect(sim.p1!.hitstop).toBe(frames);
+    const x = sim.p2!.x;
+    for (let i = 0; i < frames; i++) sim.step({});
+    expect(sim.p2!.x).toBe(x);
+    expect(sim.p2!.hitstop).toBe(0);
+    sim.step({});
+    expect(sim.p2!.x).toBeGreaterThan(x);
+  });
+
+  test('shake scales with knockback and fades out', () => {
+    const small = new ScreenShake();
+    const big = new ScreenShake();
+    small.kick(50);
+    big.kick(300);
+    expect(big.amplitude).toBeGreaterThan(small.amplitude);
+    big.update(1);
+    expect(big.offset()).toEqual({ x: 0, y: 0 });
+  });
+});
@@ -0,0 +1,104 @@
+import { InputBuffer, DASH_COMMAND, INPUT_BUFFER_FRAMES } from '../src/qte/inputBuffer';
+import { getMovement } from '../src/qte/movement';
+import { getMoveSet } from '../src/qte/moves';
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS } from '../src/qte/input';
+
+const K = P1_KEYS;
+
+describe('input buffer', () => {
+  const setup = () => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 200, y: 544 }, p2: { x: 900, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+
+  test('records frame-stamped presses and releases and matches motions against facing', () => {
+    const buf = new InputBuffer(K);
+    buf.record({});
+    buf.record({ [K.attack1]: true });
+    expect(buf.pressed('attack1')).toBe(true);
+    buf.record({});
+    expect(buf.released('attack1')).toBe(true);
+    expect(buf.events.map((e) => [e.action, e.pressed, e.frame])).toEqual([['attack1', true, 1], ['attack1', false, 2]]);
+
+    const qcf = { motion: '236', button: 'attack1' as const, window: 20 };
+    const feed = (forward: string) => {
+      const b = new InputBuffer(K);
+      b.record({});
+      b.record({ [K.down]: true });
+      b.record({ [K.down]: true, [forward]: true });
+      b.record({ [forward]: true });
+      b.record({ [forward]: true, [K.attack1]: true });
+      return b;
+    };
+    expect(feed(K.right).matchMotion(qcf, 1)).toBe(true);
+    expect(feed(K.left).matchMotion(qcf, -1)).toBe(true);
+    expect(feed(K.left).matchMotion(qcf, 1)).toBe(false);
+    // the press is used up by the match
+    const b = feed(K.right);
+    expect(b.matchMotion(qcf, 1)).toBe(true);
+    expect(b.matchMotion(qcf, 1)).toBe(false);
+    expect(b.buffered('attack1')).toBeNull();
+  });
+
+  test('a press during attack recovery starts the next attack; an old press does not', () => {
+    const run = (pressAt: number) => {
+      const sim = setup();
+      const p1 = sim.p1!;
+      const frames = Math.ceil(getMoveSet('ninja').attack1.duration * 60);
+      sim.step({ [K.attack1]: true });
+      let restarted = false;
+      for (let i = 1; i < frames + INPUT_BUFFER_FRAMES; i++) {
+        const before = p1.attack1Timer;
+        sim.step({ [K.attack1]: i === pressAt });
+        if (p1.attacking1 && p1.attack1Timer > before) restarted = true;
+      }
+      return restarted;
+    };
+    const frames = Math.ceil(getMoveSet('ninja').attack1.duration * 60);
+    expect(run(frames - 2)).toBe(true);
+    expect(run(5)).toBe(false);
+  });
+
+  test('double tap forward dashes, holding walks', () => {
+    const sim = setup();
+    const p1 = sim.p1!;
+    sim.step({ [K.right]: true });
+    sim.step({});
+    sim.step({ [K.right]: true });
+    const dashVx = p1.vx;
+    // ground friction takes a little off either speed
+    expect(dashVx).toBeGreaterThan(getMovement('ninja').dashSpeed - 30);
+    for (let i = 0; i < 30; i++) sim.step({ [K.right]: true });
+    expect(p1.vx).toBeGreaterThan(0);
+    expect(p1.vx).toBeLessThanOrEqual(150);
+    // a second double tap the other way dashes left
+    sim.step({});
+    sim.step({ [K.left]: true });
+    sim.step({});
+    sim.step({ [K.left]: true });
+    expect(p1.vx).toBe(-dashVx);
+    expect(DASH_COMMAND.motion).toBe('656');
+  });
+
+  test('down, down-forward, forward + attack1 fires the ninja command special', () => {
+    const sim = setup();
+    const p1 = sim.p1!;
+    sim.step({ [K.down]: true });
+    sim.step({ [K.down]: true, [K.right]: true });
+    sim.step({ [K.right]: true });
+    sim.step({ [K.right]: true, [K.attack1]: true });
+    expect(p1.inSpecial).toBe(true);
+    expect(p1.state).toBe('special');
+    expect(p1.attacking1).toBe(false);
+    for (let i = 0; i < 30 && sim.projectiles.length === 0; i++) sim.step({});
+    expect(sim.projectiles.length).toBe(1);
+    expect(sim.projectiles[0].owner).toBe(p1);
+  });
+});
@@ -0,0 +1,43 @@
+import { applyDI, getLaunchPhysics, weightFactor } from '../src/qte/launchPhysics';
+import { createSimulation } from '../src/qte/simulation';
+
+describe('launch physics', () => {
+  test('only DI perpendicular to the launch rotates it, within the limit', () => {
+    const up = Math.PI / 2;
+    expect(applyDI(up, { x: 0, y: 1 }, 18)).toBeCloseTo(up);
+    expect(applyDI(up, { x: 0, y: 0 }, 18)).toBe(up);
+    // holding right on a straight-up launch rotates it clockwise by the full limit
+    expect(applyDI(up, { x: 1, y: 0 }, 18)).toBeCloseTo(up - (18 * Math.PI) / 180);
+  });
+
+  test('heavier characters are launched less far', () => {
+    expect(getLaunchPhysics('cyboard').weight).toBeGreaterThan(getLaunchPhysics('ninja').weight);
+    expect(getLaunchPhysics('unknown')).toEqual(getLaunchPhysics(null));
+    expect(weightFactor(100)).toBe(1);
+
+    const launchSpeed = (characterId: string) => {
+      const f = createSimulation({ p1: characterId, isSolidAt: () => false }).p1!;
+      f.damagePercent = 60;
+      f.receiveHit(10, 140, 1, Math.PI);
+      return Math.hypot(f.vx, f.vy);
+    };
+    expect(launchSpeed('cyboard')).toBeLessThan(launchSpeed('ninja'));
+  });
+
+  test('held direction during the hit bends the launch', () => {
+    const launch = (held: { x: number; y: number }) => {
+      const f = createSimulation({ p1: 'laurin', isSolidAt: () => false }).p1!;
+      f.damagePercent = 60;
+      f.heldDirection = held;
+      // 45 degree hit from an attacker on the left
+      f.receiveHit(10, 140, 1, Math.PI - Math.PI / 4);
+      return { vx: f.vx, vy: f.vy };
+    };
+    const none = launch({ x: 0, y: 0 });
+    const inward = launch({ x: -1, y: 0 });
+    expect(none.vx).toBeGreaterThan(0);
+    // holding back toward the attacker steepens the launch
+    expect(inward.vx).toBeLessThan(none.vx);
+    expect(inward.vy).toBeLessThan(none.vy);
+  });
+});
@@ -0,0 +1,60 @@
+import { findLedge, LEDGE_MAX_HANG, LEDGE_ROLL_DISTANCE, LEDGE_GETUP_DISTANCE } from '../src/qte/ledge';
+import { createSimulation } from '../src/qte/simulation';
+import { canHit } from '../src/qte/combat';
+import { P1_KEYS } from '../src/qte/input';
+
+// one platform from x=300 to x=900 with its top at y=600
+const isSolidAt = (x: number, y: number) => x >= 300 && x <= 900 && y >= 600 && y <= 700;
+
+describe('ledge grab', () => {
+  // P1 falls just left of the platform's left edge
+  const setup = () => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt,
+      spawns: { p1: { x: 100, y: 350 }, p2: { x: 600, y: 344 } },
+    });
+    const events: any[] = [];
+    for (let i = 0; i < 60 && !sim.p1!.ledge; i++) events.push(...sim.step({}).events);
+    return { sim, events };
+  };
+
+  test('ledges are the ends of platforms, not the middle of a floor', () => {
+    expect(findLedge(isSolidAt, -1, 280, 580, 320, 620)).toEqual({ x: 300, y: 600, side: -1 });
+    expect(findLedge(isSolidAt, 1, 880, 580, 920, 620)).toEqual({ x: 900, y: 600, side: 1 });
+    expect(findLedge(isSolidAt, 1, 280, 580, 320, 620)).toBeNull();
+    expect(findLedge((_x, y) => y >= 600, -1, 280, 580, 320, 620)).toBeNull();
+  });
+
+  test('a falling fighter hangs on the ledge, invincible, and gets up onto the stage', () => {
+    const { sim, events } = setup();
+    const p1 = sim.p1!;
+    expect(events).toContainEqual({ type: 'ledge', fighter: 'P1' });
+    expect(p1.ledge).toMatchObject({ x: 300, y: 600, side: -1 });
+    expect(p1.facing).toBe(1);
+    expect(canHit(sim.p2!, p1)).toBe(false);
+    const y = p1.y;
+    for (let i = 0; i < 20; i++) sim.step({});
+    expect(p1.y).toBe(y);
+    for (let i = 0; i < 5; i++) sim.step({ [P1_KEYS.up]: i === 0 });
+    expect(p1.ledge).toBeNull();
+    expect(p1.onGround).toBe(true);
+    expect(p1.y + p1.h).toBeCloseTo(600, 0);
+    expect(p1.x + p1.w * 0.5).toBeGreaterThanOrEqual(300 + LEDGE_GETUP_DISTANCE - 1);
+  });
+
+  test('rolling goes further onto the stage; hanging too long lets go', () => {
+    const rolled = setup().sim;
+    for (let i = 0; i < 15; i++) rolled.step({ [P1_KEYS.shield!]: true });
+    const p1 = rolled.p1!;
+    expect(p1.ledge).toBeNull();
+    expect(p1.x + p1.w * 0.5).toBeCloseTo(300 + LEDGE_ROLL_DISTANCE, 0);
+
+    const hanging = setup().sim;
+    for (let i = 0; i < Math.ceil(LEDGE_MAX_HANG * 60) + 2; i++) hanging.step({});
+    expect(hanging.p1!.ledge).toBeNull();
+    expect(hanging.p1!.onGround).toBe(false);
+    expect(hanging.p1!.invincible).toBe(false);
+  });
+});
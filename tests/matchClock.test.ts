@@ -0,0 +1,57 @@
+import { MatchClock, leadingTeams, resolveTimeUp } from '../src/qte/matchClock';
+import { DEFAULT_MATCH_RULES, applyMatchRules } from '../src/qte/matchRules';
+import { createSimulation } from '../src/qte/simulation';
+
+describe('match clock', () => {
+  const isSolidAt = (_x: number, y: number) => y >= 800;
+
+  test('counts down and reports the tick time runs out', () => {
+    const clock = new MatchClock(2);
+    expect(clock.format()).toBe('0:02');
+    let expiredAt = -1;
+    for (let i = 0; i < 150; i++) if (clock.update(1 / 60)) expiredAt = i;
+    expect(expiredAt).toBe(119);
+    expect(clock.format()).toBe('0:00');
+    expect(new MatchClock(0).format()).toBe('');
+  });
+
+  test('time mode ranks by KOs minus falls, ties go to sudden death', () => {
+    const sim = createSimulation({ p1: 'ninja', p2: 'cyboard', isSolidAt });
+    const players = sim.fighters;
+    const rules = { ...DEFAULT_MATCH_RULES, mode: 'time' as const };
+    const clock = new MatchClock(60);
+    clock.recordFall('P2', 'P1');
+    expect(leadingTeams(players, rules, clock)).toEqual(['P1']);
+    clock.recordFall('P1', 'P2');
+    expect(leadingTeams(players, rules, clock)).toEqual(['P1', 'P2']);
+    expect(clock.score('P1')).toBe(0);
+  });
+
+  test('the sudden death blast zone closes in and KOs are credited', () => {
+    const sim = createSimulation({ p1: 'ninja', p2: 'cyboard', isSolidAt, spawns: { p1: { x: 40, y: 544 }, p2: { x: 1400, y: 544 } } });
+    const clock = new MatchClock(1);
+    clock.startSuddenDeath();
+    expect(clock.blastZone(1920, 1080)!.left).toBe(-300);
+    for (let i = 0; i < 60 * 40; i++) clock.update(1 / 60);
+    sim.blastZone = clock.blastZone(1920, 1080);
+    sim.p1!.lastHitBy = 'P2';
+    const state = sim.step({});
+    expect(state.events).toContainEqual({ type: 'fall', fighter: 'P1', by: 'P2' });
+  });
+
+  test('time-up against the AI counts the AI-controlled P2', () => {
+    const sim = createSimulation({ p1: 'ninja', p2: 'cyboard', isSolidAt, ai: { p2: true } });
+    const rules = { ...DEFAULT_MATCH_RULES, timeLimit: 1 };
+    for (const f of sim.fighters) applyMatchRules(f, rules);
+    const clock = new MatchClock(rules.timeLimit);
+    let result: ReturnType<typeof resolveTimeUp> | null = null;
+    for (let i = 0; i < 90 && !result; i++) {
+      sim.step({});
+      if (clock.update(1 / 60)) result = resolveTimeUp(sim.fighters, rules, clock);
+    }
+    // both untouched: a tie between P1 and the AI goes to sudden death
+    expect(result).toEqual({ winner: null, tied: [sim.p1!.team, sim.p2!.team] });
+    sim.p1!.stocks--;
+    expect(resolveTimeUp(sim.fighters, rules, clock).winner).toBe(sim.p2);
+  });
+});
@@ -0,0 +1,47 @@
+import { createSimulation } from '../src/qte/simulation';
+import { DEFAULT_MATCH_RULES, describeResult, type MatchRules } from '../src/qte/matchRules';
+import { P1_KEYS } from '../src/qte/input';
+
+describe('match rules', () => {
+  const isSolidAt = (_x: number, y: number) => y >= 800;
+  const spawns = { p1: { x: 400, y: 544 }, p2: { x: 580, y: 544 } };
+
+  function jab(rules: MatchRules) {
+    const sim = createSimulation({ p1: 'ninja', p2: 'cyboard', isSolidAt, spawns, rules });
+    for (let i = 0; i < 30; i++) sim.step({});
+    for (let i = 0; i < 30; i++) sim.step({ [P1_KEYS.attack1]: i < 5 });
+    return sim.p2!;
+  }
+
+  test('stock rules add percent, stamina rules subtract HP', () => {
+    const stock = jab(DEFAULT_MATCH_RULES);
+    expect(stock.damagePercent).toBeGreaterThan(0);
+    expect(stock.hp).toBe(stock.maxHp);
+
+    const stamina = jab({ ...DEFAULT_MATCH_RULES, mode: 'stamina', hp: 6 });
+    expect(stamina.maxHp).toBe(6);
+    expect(stamina.hp).toBe(4);
+    expect(stamina.damagePercent).toBe(0);
+  });
+
+  test('falls cost a stock except in time mode', () => {
+    const fall = (rules: MatchRules) => {
+      // no ground at all: P1 falls out right away
+      const sim = createSimulation({ p1: 'ninja', isSolidAt: () => false, spawns, rules });
+      for (let i = 0; i < 120; i++) sim.step({});
+      return sim.p1!;
+    };
+    expect(fall({ ...DEFAULT_MATCH_RULES, stocks: 5 }).stocks).toBeLessThan(5);
+    expect(fall({ ...DEFAULT_MATCH_RULES, mode: 'time', stocks: 5 }).stocks).toBe(5);
+  });
+
+  test('game-over line follows the mode', () => {
+    const p1 = createSimulation({ p1: 'ninja', isSolidAt, rules: { ...DEFAULT_MATCH_RULES, stocks: 2 } }).p1!;
+    expect(describeResult(p1, DEFAULT_MATCH_RULES)).toBe('2 stocks left');
+    expect(describeResult(p1, { ...DEFAULT_MATCH_RULES, mode: 'time' })).toBe('Time!');
+  });
+
+  test('versus matches are timed by default', () => {
+    expect(DEFAULT_MATCH_RULES.timeLimit).toBeGreaterThan(0);
+  });
+});
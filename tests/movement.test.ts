@@ -0,0 +1,98 @@
+import { getMovement, DEFAULT_MOVEMENT, AIR_DODGE_SPEED } from '../src/qte/movement';
+import { createSimulation } from '../src/qte/simulation';
+import { canHit } from '../src/qte/combat';
+import { P1_KEYS } from '../src/qte/input';
+
+// floor at y=800 and a wall from x=1000 rightwards
+const isSolidAt = (x: number, y: number) => y >= 800 || x >= 1000;
+
+describe('movement tech', () => {
+  const setup = (p1: string, x = 200) => {
+    const sim = createSimulation({
+      p1,
+      p2: 'cyboard',
+      isSolidAt,
+      spawns: { p1: { x, y: 544 }, p2: { x: 500, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+  // full jump: hold up long enough not to short hop
+  const jump = (sim: ReturnType<typeof setup>) => {
+    for (let i = 0; i < 10; i++) sim.step({ [P1_KEYS.up]: true });
+    sim.step({});
+  };
+
+  test('per-character movement falls back to the defaults', () => {
+    expect(getMovement('unknown')).toEqual(DEFAULT_MOVEMENT);
+    expect(getMovement('ninja')).toMatchObject({ airJumps: 2, wallJump: true, dodge: 'airDodge' });
+    expect(getMovement('laurin2')).toEqual(getMovement('laurin'));
+  });
+
+  test('ninja gets two air jumps per airtime, refilled on landing', () => {
+    const sim = setup('ninja');
+    const p1 = sim.p1!;
+    expect(p1.onGround).toBe(true);
+    jump(sim);
+    expect(p1.onGround).toBe(false);
+    for (let n = 0; n < 3; n++) {
+      sim.step({ [P1_KEYS.up]: true });
+      sim.step({});
+    }
+    expect(p1.airJumpsLeft).toBe(0);
+    for (let i = 0; i < 240 && !p1.onGround; i++) sim.step({});
+    expect(p1.onGround).toBe(true);
+    sim.step({});
+    expect(p1.airJumpsLeft).toBe(2);
+  });
+
+  test('holding down after the peak fast falls', () => {
+    const fall = (down: boolean) => {
+      const sim = setup('cyboard');
+      const p1 = sim.p1!;
+      jump(sim);
+      for (let i = 0; i < 120 && p1.vy < 0; i++) sim.step({});
+      sim.step({ [P1_KEYS.down]: down });
+      return p1.vy;
+    };
+    expect(fall(true)).toBe(getMovement('cyboard').fastFallVy);
+    expect(fall(false)).toBeLessThan(getMovement('cyboard').fastFallVy);
+  });
+
+  test('the air dodge dashes in the held direction with invulnerability; flyers still fly', () => {
+    const sim = setup('ninja');
+    const p1 = sim.p1!;
+    jump(sim);
+    const x = p1.x;
+    sim.step({ [P1_KEYS.dodge!]: true, [P1_KEYS.right]: true });
+    expect(p1.flying).toBe(false);
+    expect(p1.vx).toBe(AIR_DODGE_SPEED);
+    expect(canHit(sim.p2!, p1)).toBe(false);
+    for (let i = 0; i < 20; i++) sim.step({});
+    expect(p1.x).toBeGreaterThan(x + 100);
+    expect(canHit(sim.p2!, p1)).toBe(true);
+    // once per airtime
+    sim.step({ [P1_KEYS.dodge!]: true });
+    expect(p1.airDodgeTimer).toBe(0);
+
+    const flyer = setup('granny');
+    jump(flyer);
+    flyer.step({ [P1_KEYS.dodge!]: true });
+    expect(flyer.p1!.flying).toBe(true);
+    expect(flyer.p1!.invincible).toBe(false);
+  });
+
+  test('pushing against a wall in the air clings to it; jumping pushes off', () => {
+    const sim = setup('ninja', 780);
+    const p1 = sim.p1!;
+    for (let i = 0; i < 10; i++) sim.step({ [P1_KEYS.up]: true, [P1_KEYS.right]: true });
+    for (let i = 0; i < 60 && p1.wallCling === 0; i++) sim.step({ [P1_KEYS.right]: true });
+    expect(p1.wallCling).toBe(1);
+    for (let i = 0; i < 30; i++) sim.step({ [P1_KEYS.right]: true });
+    expect(p1.vy).toBeLessThanOrEqual(getMovement('ninja').wallSlideSpeed);
+    sim.step({ [P1_KEYS.up]: true, [P1_KEYS.right]: true });
+    expect(p1.vx).toBe(-getMovement('ninja').wallJumpVx);
+    expect(p1.vy).toBeLessThan(0);
+    expect(p1.facing).toBe(-1);
+  });
+});
@@ -0,0 +1,65 @@
+import { getMoveSet, registerMoveSet, unregisterMoveSet, getProjectileType, DEFAULT_MOVES } from '../src/qte/moves';
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS } from '../src/qte/input';
+
+describe('move-sets', () => {
+  const isSolidAt = (_x: number, y: number) => y >= 800;
+  const spawns = { p1: { x: 200, y: 544 } };
+
+  // keep move-sets registered by a test out of the shared registry
+  afterEach(() => unregisterMoveSet('testchar'));
+
+  // press ranged1 on the first tick and collect every projectile P1 fires
+  function fireRanged1(characterId: string) {
+    const sim = createSimulation({ p1: characterId, isSolidAt, spawns });
+    const seen = new Set<any>();
+    for (let i = 0; i < 20; i++) {
+      sim.step({ [P1_KEYS.ranged1]: i === 0 });
+      for (const pr of sim.projectiles) seen.add(pr);
+    }
+    return Array.from(seen);
+  }
+
+  test('unknown characters get the default kit', () => {
+    expect(getMoveSet('nobody')).toBe(DEFAULT_MOVES);
+    expect(getMoveSet('Laurin').ranged1.projectile?.fireMode).toBe('once');
+  });
+
+  test('laurin ranged1 lobs an arcing projectile, ninja shoots straight', () => {
+    const [lob] = fireRanged1('laurin');
+    expect(lob).toBeDefined();
+    expect(lob.vy).toBeGreaterThan(-220); // gravity already pulled it down
+
+    const [shot] = fireRanged1('ninja');
+    expect(shot).toBeDefined();
+    expect(shot.vy).toBe(0);
+  });
+
+  test('a registered move-set drives a new character without fighter changes', () => {
+    registerMoveSet('testchar', {
+      ...DEFAULT_MOVES,
+      ranged1: {
+        animation: 'ranged1',
+        duration: 0.4,
+        projectile: {
+          projectile: 'projectile',
+          spawnFrame: 0,
+          type: { ...getProjectileType('linear'), speed: 300, knockback: true, damage: { percent: 12, baseKB: 100, strength: 1 } },
+          fireMode: 'once',
+        },
+      },
+    });
+    const sim = createSimulation({ p1: 'ninja', isSolidAt, spawns });
+    sim.p1!.moves = getMoveSet('testchar');
+    sim.step({ [P1_KEYS.ranged1]: true });
+    expect(sim.projectiles).toHaveLength(1);
+    expect(Math.abs(sim.projectiles[0].vx)).toBe(300);
+    expect(sim.projectiles[0].damage.percent).toBe(12);
+  });
+
+  test('unregistering a move-set falls back to the default kit', () => {
+    registerMoveSet('testchar', { ...DEFAULT_MOVES });
+    unregisterMoveSet('TestChar');
+    expect(getMoveSet('testchar')).toBe(DEFAULT_MOVES);
+  });
+});
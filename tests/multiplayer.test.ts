@@ -0,0 +1,43 @@
+import { readGamepadsUnified, PLAYER_KEYS, P3_KEYS, P4_KEYS } from '../src/qte/input';
+import { createSimulation } from '../src/qte/simulation';
+
+describe('four-player matches', () => {
+  const isSolidAt = (_x: number, y: number) => y >= 800;
+
+  test('gamepads 2 and 3 drive P3 and P4 bindings', () => {
+    const pad = (button: number) => ({
+      axes: [0, 0],
+      buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: i === button })),
+    });
+    const original = navigator.getGamepads;
+    (navigator as any).getGamepads = () => [null, null, pad(5), pad(12)];
+    try {
+      const input = readGamepadsUnified(...PLAYER_KEYS);
+      expect(input[P3_KEYS.attack1]).toBe(true);
+      expect(input[P4_KEYS.up]).toBe(true);
+      expect(input[PLAYER_KEYS[0].attack1]).toBeUndefined();
+    } finally {
+      (navigator as any).getGamepads = original;
+    }
+  });
+
+  test('teammates only hit each other with friendly fire on', () => {
+    const swingAtTeammate = (friendlyFire: boolean) => {
+      const sim = createSimulation({
+        p1: 'ninja',
+        p2: 'cyboard',
+        extraPlayers: ['cyboard'],
+        teams: ['team1', 'team2', 'team1'],
+        friendlyFire,
+        isSolidAt,
+        spawns: { p1: { x: 400, y: 544 }, p2: { x: 1500, y: 544 }, extra: [{ x: 580, y: 544 }] },
+      });
+      expect(sim.players[0].name).toBe('P3');
+      for (let i = 0; i < 30; i++) sim.step({});
+      for (let i = 0; i < 30; i++) sim.step({ [PLAYER_KEYS[0].attack1]: i < 5 });
+      return sim.players[0].damagePercent;
+    };
+    expect(swingAtTeammate(false)).toBe(0);
+    expect(swingAtTeammate(true)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,44 @@
+import { Projectile } from '../src/qte/fighter';
+import { resolveCombat, type CombatEvent } from '../src/qte/combat';
+import { sweepTerrain } from '../src/qte/projectileTerrain';
+import { getProjectileType } from '../src/qte/moves';
+import { P1_PROJECTILE_SRC } from '../src/qte/assetRegistry';
+import { makeFighter } from './fighters';
+
+// a 4px thin wall at x = 1000..1003
+const isSolidAt = (x: number, _y: number) => x >= 1000 && x < 1004;
+
+describe('projectile terrain collision', () => {
+  test('the sweep finds thin walls between two samples', () => {
+    expect(sweepTerrain(900, 300, 1100, 300, isSolidAt)).toEqual({ x: 996, y: 300, axis: 'x' });
+    expect(sweepTerrain(900, 300, 990, 300, isSolidAt)).toBeNull();
+  });
+
+  test('a fast shot blasts on the wall instead of hitting the fighter behind it', () => {
+    const p1 = makeFighter('P1', 'ninja', 100);
+    const p2 = makeFighter('P2', 'cyboard', 1100);
+    const pr = new Projectile(800, 400, 1200, 0, p1, P1_PROJECTILE_SRC, 6);
+    pr.update(0.1); // center moves from 928 to 1048, through the wall
+    const blasts: { x: number; y: number }[] = [];
+    const events: CombatEvent[] = [];
+    resolveCombat([p1, p2], [pr], { spawnBlast: (_o, x, y) => blasts.push({ x, y }), events, isSolidAt });
+    expect(pr.alive).toBe(false);
+    expect(events).toEqual([]);
+    expect(blasts).toHaveLength(1);
+    expect(blasts[0].x).toBeLessThan(1000);
+  });
+
+  test('ricochet shots bounce off terrain until they run out of bounces', () => {
+    const p1 = makeFighter('P1', 'ninja', 100);
+    const pr = new Projectile(800, 400, 650, 0, p1, P1_PROJECTILE_SRC, 6);
+    pr.type = getProjectileType('ricochet');
+    const ctx = { spawnBlast: () => {}, events: [] as CombatEvent[], isSolidAt };
+    for (let i = 0; i < 20; i++) {
+      pr.update(1 / 60);
+      resolveCombat([p1], [pr], ctx);
+    }
+    expect(pr.bounces).toBe(1);
+    expect(pr.vx).toBeCloseTo(-585);
+    expect(pr.alive).toBe(true);
+  });
+});
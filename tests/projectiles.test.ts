@@ -0,0 +1,81 @@
+import { Fighter, Projectile } from '../src/qte/fighter';
+import { resolveCombat, type CombatEvent } from '../src/qte/combat';
+import { getProjectileType, getMoveSet } from '../src/qte/moves';
+import { P1_PROJECTILE_SRC } from '../src/qte/assetRegistry';
+import { DEFAULT_MATCH_RULES, applyMatchRules } from '../src/qte/matchRules';
+import { makeFighter } from './fighters';
+
+function shoot(owner: Fighter, typeName: string, x: number, y: number) {
+  const type = getProjectileType(typeName);
+  const pr = new Projectile(x, y, type.speed, 0, owner, P1_PROJECTILE_SRC, 6, null, null, type.initialVy || 0, type.gravity || 0);
+  pr.type = type;
+  pr.damage = type.damage;
+  pr.applyKnockbackOnHit = type.knockback;
+  pr.lifespan = type.lifespan;
+  return pr;
+}
+
+describe('projectile types', () => {
+  test('characters pick their ranged projectile types from data', () => {
+    expect(getMoveSet('laurin').ranged1.projectile?.type).toBe('arcing');
+    expect(getMoveSet('cyboard').ranged1.projectile?.type).toBe('homing');
+    expect(getProjectileType('nope')).toBe(getProjectileType('linear'));
+  });
+
+  test('homing turns towards the enemy, boomerangs come back, sine waves oscillate', () => {
+    const p1 = makeFighter('P1', 'ninja', 100);
+    const p2 = makeFighter('P2', 'cyboard', 900, { y: 100 });
+    const missile = shoot(p1, 'homing', 300, 500);
+    const boomerang = shoot(p1, 'boomerang', 300, 500);
+    const wave = shoot(p1, 'sine', 300, 500);
+    let minWaveY = Infinity;
+    let maxWaveY = -Infinity;
+    for (let i = 0; i < 30; i++) {
+      for (const pr of [missile, boomerang, wave]) pr.update(1 / 60, [p1, p2]);
+      minWaveY = Math.min(minWaveY, wave.y);
+      maxWaveY = Math.max(maxWaveY, wave.y);
+    }
+    expect(missile.vy).toBeLessThan(0); // p2 is above
+    expect(Math.hypot(missile.vx, missile.vy)).toBeCloseTo(getProjectileType('homing').speed);
+    expect(maxWaveY - minWaveY).toBeGreaterThan(60);
+    for (let i = 0; i < 42; i++) boomerang.update(1 / 60, [p1, p2]);
+    expect(boomerang.vx).toBeLessThan(0);
+    expect(boomerang.x).toBeLessThan(330);
+  });
+
+  test('piercing shots hit each target once, multi-hit shots re-hit on an interval', () => {
+    const p1 = makeFighter('P1', 'ninja', 100);
+    const a = makeFighter('A', 'cyboard', 500);
+    const b = makeFighter('B', 'granny', 520);
+    const events: CombatEvent[] = [];
+    const ctx = { spawnBlast: () => {}, events };
+    const pierce = shoot(p1, 'piercing', 440, 500);
+    for (let i = 0; i < 5; i++) resolveCombat([p1, a, b], [pierce], ctx);
+    expect(pierce.alive).toBe(true);
+    expect(events.map((e) => e.type === 'hit' && e.target)).toEqual(['A', 'B']);
+
+    events.length = 0;
+    const ball = shoot(p1, 'multihit', 440, 500);
+    for (let i = 0; i < 30; i++) {
+      ball.age += 1 / 60;
+      resolveCombat([p1, a], [ball], ctx);
+    }
+    // one hit on contact, then one every 0.2s
+    expect(events.filter((e) => e.type === 'hit')).toHaveLength(3);
+    expect(ball.alive).toBe(true);
+  });
+
+  test('under stamina rules shots cost HP without adding percent or knockback', () => {
+    const rules = { ...DEFAULT_MATCH_RULES, mode: 'stamina' as const, hp: 6 };
+    const p1 = makeFighter('P1', 'ninja', 100);
+    const p2 = makeFighter('P2', 'cyboard', 500);
+    applyMatchRules(p2, rules);
+    const ctx = { spawnBlast: () => {}, events: [] as CombatEvent[], rules };
+    // a knockback shot and a plain one
+    resolveCombat([p1, p2], [shoot(p1, 'homing', 440, 500)], ctx);
+    resolveCombat([p1, p2], [shoot(p1, 'linear', 440, 500)], ctx);
+    expect(p2.hp).toBe(4);
+    expect(p2.damagePercent).toBe(0);
+    expect(p2.vx).toBe(0);
+  });
+});
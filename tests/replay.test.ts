@@ -0,0 +1,38 @@
+import { ReplayRecorder, ReplayPlayer, parseReplay, serializeReplay, REPLAY_VERSION } from '../src/qte/replay';
+
+describe('replay', () => {
+  const meta = { characters: { p1: 'ninja', p2: 'cyboard' }, sectionIdx: 1, ai: { p2: true } };
+
+  test('round-trips recorded input frames through JSON', () => {
+    const rec = new ReplayRecorder(meta);
+    const frames = [
+      { KeyA: true, KeyE: false },
+      { KeyA: true, KeyE: false },
+      { KeyA: true, KeyE: true },
+      {},
+    ];
+    frames.forEach((f) => rec.record(f));
+    expect(rec.frameCount).toBe(4);
+
+    const replay = parseReplay(serializeReplay(rec.toReplay()));
+    expect(replay.version).toBe(REPLAY_VERSION);
+    expect(replay.meta.characters).toEqual(meta.characters);
+    // identical consecutive frames are run-length encoded
+    expect(replay.frames[0].n).toBe(2);
+
+    const player = new ReplayPlayer(replay);
+    const played: Record<string, boolean>[] = [];
+    let next;
+    while ((next = player.next())) played.push(next);
+    expect(played.length).toBe(4);
+    expect(player.done).toBe(true);
+    expect(played.map((f) => !!f.KeyA)).toEqual([true, true, true, false]);
+    expect(played.map((f) => !!f.KeyE)).toEqual([false, false, true, false]);
+  });
+
+  test('rejects unknown formats and newer versions', () => {
+    expect(() => parseReplay('{"format":"other"}')).toThrow();
+    const future = { format: 'qte-replay', version: REPLAY_VERSION + 1, meta: {}, keys: [], frames: [] };
+    expect(() => parseReplay(JSON.stringify(future))).toThrow(/version/);
+  });
+});
@@ -0,0 +1,56 @@
+import { MAX_SHIELD, SHIELD_BREAK_STUN, chipDamage } from '../src/qte/shield';
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS, P2_KEYS } from '../src/qte/input';
+
+describe('shield', () => {
+  const setup = () => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 400, y: 544 }, p2: { x: 580, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+
+  test('a held shield blocks melee with chip damage and shield stun', () => {
+    const sim = setup();
+    let block: any = null;
+    for (let i = 0; i < 40 && !block; i++) {
+      const state = sim.step({ [P2_KEYS.shield!]: true, [P1_KEYS.attack1]: i > 2 && i < 8 });
+      block = state.events.find((e) => e.type === 'block') || null;
+      expect(state.events.some((e) => e.type === 'hit')).toBe(false);
+    }
+    expect(block).toMatchObject({ kind: 'melee', attacker: 'P1', defender: 'P2', broke: false });
+    expect(sim.p2!.damagePercent).toBeCloseTo(block.chip);
+    expect(block.chip).toBeLessThan(8);
+    expect(sim.p2!.shieldHealth).toBeLessThan(MAX_SHIELD);
+    expect(sim.p2!.shieldStun).toBeGreaterThan(0);
+    expect(sim.p2!.state).toBe('shield');
+  });
+
+  test('shield health regenerates once the shield is lowered', () => {
+    const sim = setup();
+    for (let i = 0; i < 60; i++) sim.step({ [P2_KEYS.shield!]: true });
+    const drained = sim.p2!.shieldHealth;
+    expect(drained).toBeLessThan(MAX_SHIELD);
+    for (let i = 0; i < 30; i++) sim.step({});
+    expect(sim.p2!.shielding).toBe(false);
+    expect(sim.p2!.shieldHealth).toBeGreaterThan(drained);
+  });
+
+  test('an empty shield breaks and stuns', () => {
+    const sim = setup();
+    sim.p2!.shieldHealth = 2;
+    sim.step({ [P2_KEYS.shield!]: true });
+    expect(sim.p2!.blockHit(10)).toBe(true);
+    expect(sim.p2!.shielding).toBe(false);
+    expect(sim.p2!.stunTimer).toBe(SHIELD_BREAK_STUN);
+    // no shield and no attacks until the break stun is over
+    sim.step({ [P2_KEYS.shield!]: true, [P2_KEYS.attack1]: true });
+    expect(sim.p2!.shielding).toBe(false);
+    expect(sim.p2!.attacking1).toBe(false);
+    expect(chipDamage(10)).toBeCloseTo(2);
+  });
+});
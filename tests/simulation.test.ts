@@ -0,0 +1,44 @@
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS } from '../src/qte/input';
+
+describe('headless simulation', () => {
+  // flat floor at y=800 across the whole stage
+  const isSolidAt = (_x: number, y: number) => y >= 800;
+
+  test('fighters settle on the injected ground', () => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt,
+      spawns: { p1: { x: 200, y: 300 }, p2: { x: 1400, y: 300 } },
+    });
+    let state = sim.step({});
+    for (let i = 0; i < 120; i++) state = sim.step({});
+    expect(state.tick).toBe(121);
+    expect(state.fighters.every((f) => f.onGround)).toBe(true);
+    for (const f of sim.fighters) expect(f.y + f.h).toBeCloseTo(800, 0);
+  });
+
+  test('P1 attack1 at 40% launches P2', () => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt,
+      spawns: { p1: { x: 400, y: 544 }, p2: { x: 580, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    sim.p2!.damagePercent = 40;
+
+    const events: string[] = [];
+    let launched = false;
+    for (let i = 0; i < 60 && !launched; i++) {
+      const state = sim.step({ [P1_KEYS.attack1]: i < 5 });
+      for (const ev of state.events) events.push(ev.type);
+      launched = state.fighters[1].launched;
+    }
+    expect(events).toContain('hit');
+    expect(launched).toBe(true);
+    expect(sim.p2!.damagePercent).toBeGreaterThan(40);
+    expect(sim.p2!.vx).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { StatusEffects } from '../src/qte/statusEffects';
+import { createSimulation } from '../src/qte/simulation';
+import { P2_KEYS } from '../src/qte/input';
+import { DEFAULT_MATCH_RULES, HP_REGEN_DELAY, HP_REGEN_INTERVAL, type MatchRules } from '../src/qte/matchRules';
+import { SHIELD_REGEN } from '../src/qte/shield';
+
+describe('status effects', () => {
+  const setup = (rules?: MatchRules) => {
+    const sim = createSimulation({
+      p1: 'ninja',
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 400, y: 544 }, p2: { x: 900, y: 544 } },
+      rules,
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+
+  test('effects refresh instead of stacking and expire', () => {
+    const s = new StatusEffects();
+    s.apply({ kind: 'slow', duration: 1, strength: 0.5 });
+    s.apply({ kind: 'slow', duration: 0.5, strength: 0.3 });
+    expect(s.speedMultiplier()).toBe(0.3);
+    expect(s.active()).toHaveLength(1);
+    expect(s.update(0.6)).toBe(0);
+    expect(s.has('slow')).toBe(true);
+    s.update(0.5);
+    expect(s.has('slow')).toBe(false);
+    expect(s.tint()).toBeNull();
+  });
+
+  test('burn deals percent over time, poison slows shield regeneration', () => {
+    const sim = setup();
+    const p2 = sim.p2!;
+    p2.applyStatus({ kind: 'burn', duration: 1, strength: 6 });
+    for (let i = 0; i < 90; i++) sim.step({});
+    expect(p2.damagePercent).toBeCloseTo(6);
+    p2.shieldHealth = 10;
+    p2.applyStatus({ kind: 'poison', duration: 5, strength: 0.5 });
+    for (let i = 0; i < 60; i++) sim.step({});
+    expect(p2.shieldHealth).toBeCloseTo(10 + SHIELD_REGEN * 0.5);
+  });
+
+  test('under stamina rules burn costs HP instead of percent', () => {
+    const sim = setup({ ...DEFAULT_MATCH_RULES, mode: 'stamina', hp: 6 });
+    const p2 = sim.p2!;
+    p2.applyStatus({ kind: 'burn', duration: 2, strength: 8 });
+    for (let i = 0; i < 150; i++) sim.step({});
+    expect(p2.hp).toBe(4);
+    expect(p2.damagePercent).toBe(0);
+  });
+
+  test('under stamina rules HP regenerates after a while, poison slows it down', () => {
+    const regained = (poisoned: boolean) => {
+      const sim = setup({ ...DEFAULT_MATCH_RULES, mode: 'stamina', hp: 6 });
+      const p2 = sim.p2!;
+      p2.takeDamage(2);
+      if (poisoned) p2.applyStatus({ kind: 'poison', duration: 30, strength: 0.5 });
+      for (let i = 0; i < Math.ceil((HP_REGEN_DELAY + HP_REGEN_INTERVAL) * 60) + 1; i++) sim.step({});
+      return p2.hp - 4;
+    };
+    expect(regained(false)).toBe(1);
+    expect(regained(true)).toBe(0);
+  });
+
+  test('freeze stuns, slow halves walking speed', () => {
+    const sim = setup();
+    const p2 = sim.p2!;
+    p2.applyStatus({ kind: 'freeze', duration: 0.5 });
+    const x = p2.x;
+    for (let i = 0; i < 20; i++) sim.step({ [P2_KEYS.left]: true, [P2_KEYS.attack1]: true });
+    expect(p2.x).toBe(x);
+    expect(p2.attacking1).toBe(false);
+    for (let i = 0; i < 20; i++) sim.step({});
+    const walk = () => {
+      const start = p2.x;
+      for (let i = 0; i < 20; i++) sim.step({ [P2_KEYS.left]: true });
+      return start - p2.x;
+    };
+    const normal = walk();
+    p2.applyStatus({ kind: 'slow', duration: 2 });
+    expect(walk()).toBeCloseTo(normal / 2);
+  });
+});
@@ -0,0 +1,75 @@
+import { awardMeter, MAX_METER, METER_PER_PARRY } from '../src/qte/superMeter';
+import { createSimulation } from '../src/qte/simulation';
+import { canHit } from '../src/qte/combat';
+import { getMoveSet, getProjectileType } from '../src/qte/moves';
+import { P1_KEYS, P2_KEYS } from '../src/qte/input';
+
+describe('super meter', () => {
+  const setup = (p1 = 'ninja') => {
+    const sim = createSimulation({
+      p1,
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 300, y: 544 }, p2: { x: 700, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+
+  test('hits fill both meters, parries fill the defender', () => {
+    const sim = setup();
+    const p1 = sim.p1!;
+    const p2 = sim.p2!;
+    awardMeter([p1, p2], [
+      { type: 'hit', kind: 'melee', attacker: 'P1', target: 'P2', damage: 10, knockback: 0 },
+      { type: 'parry', kind: 'projectile', attacker: 'P1', defender: 'P2' },
+    ]);
+    expect(p1.meter).toBe(10);
+    expect(p2.meter).toBe(5 + METER_PER_PARRY);
+    p1.gainMeter(500);
+    expect(p1.meter).toBe(MAX_METER);
+  });
+
+  test('ranged1 + ranged2 with a full meter fires the super after a cinematic freeze', () => {
+    const sim = setup();
+    const p1 = sim.p1!;
+    const p2 = sim.p2!;
+    const move = getMoveSet('ninja').super;
+    p1.gainMeter(MAX_METER);
+    const events: any[] = [];
+    events.push(...sim.step({ [P1_KEYS.ranged1]: true, [P1_KEYS.ranged2]: true }).events);
+    expect(events).toContainEqual({ type: 'super', fighter: 'P1' });
+    expect(p1.meter).toBe(MAX_METER - move.cost);
+    expect(p1.ranging1 || p1.ranging2).toBe(false);
+    expect(canHit(p2, p1)).toBe(false);
+    // the match is paused during the freeze: P2 can't walk
+    const x = p2.x;
+    for (let i = 0; i < Math.round(move.freeze * 60); i++) sim.step({ [P2_KEYS.left]: true });
+    expect(p2.x).toBe(x);
+    for (let i = 0; i < 60; i++) events.push(...sim.step({}).events);
+    expect(events.find((e) => e.type === 'hit')).toMatchObject({ kind: 'projectile', attacker: 'P1', target: 'P2', damage: 16 });
+    expect(p1.inSuper).toBe(false);
+  });
+
+  test('a standing super shot at the screen edge lives its full lifespan', () => {
+    const sim = setup('granny');
+    const p1 = sim.p1!;
+    // facing the left screen edge with the muzzle right on it
+    p1.facing = -1;
+    p1.x = 128 - p1.w * 0.5 + p1.muzzleOffset.x;
+    p1.gainMeter(MAX_METER);
+    sim.step({ [P1_KEYS.ranged1]: true, [P1_KEYS.ranged2]: true });
+    for (let i = 0; i < 120 && sim.projectiles.length === 0; i++) sim.step({});
+    expect(sim.projectiles).toHaveLength(1);
+    expect(sim.projectiles[0].lifespan).toBe(getProjectileType('miasma').lifespan);
+  });
+
+  test('without enough meter the buttons do their normal ranged moves', () => {
+    const sim = setup();
+    const events: any[] = [];
+    events.push(...sim.step({ [P1_KEYS.ranged1]: true, [P1_KEYS.ranged2]: true }).events);
+    expect(events.some((e) => e.type === 'super')).toBe(false);
+    expect(sim.p1!.inSuper).toBe(false);
+    expect(sim.p1!.ranging1 || sim.p1!.ranging2).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+import { TRANSFORM_DURATION, TRANSFORM_ANIM_TIME, getTransformForm } from '../src/qte/transform';
+import { getMoveSet } from '../src/qte/moves';
+import { createSimulation } from '../src/qte/simulation';
+import { P1_KEYS } from '../src/qte/input';
+
+describe('transform', () => {
+  const setup = (p1: string) => {
+    const sim = createSimulation({
+      p1,
+      p2: 'cyboard',
+      isSolidAt: (_x, y) => y >= 800,
+      spawns: { p1: { x: 200, y: 544 }, p2: { x: 900, y: 544 } },
+    });
+    for (let i = 0; i < 30; i++) sim.step({});
+    return sim;
+  };
+
+  test('only characters with an alternate form can transform', () => {
+    expect(getTransformForm('laurin')?.name).toBe('laurin2');
+    expect(getTransformForm('laurin2')?.name).toBe('laurin');
+    expect(getTransformForm('ninja')).toBeNull();
+    const sim = setup('ninja');
+    sim.step({ [P1_KEYS.transform!]: true });
+    expect(sim.p1!.transformed).toBe(false);
+    expect((sim.p1 as any).characterId).toBe('ninja');
+  });
+
+  test('Laurin swaps to the laurin2 form, is locked during the animation and reverts after the duration', () => {
+    const sim = setup('laurin');
+    const p1 = sim.p1!;
+    const baseAnim = p1.anim;
+    sim.step({ [P1_KEYS.transform!]: true });
+    expect(p1.transformed).toBe(true);
+    expect((p1 as any).characterId).toBe('laurin2');
+    expect(p1.moves).toBe(getMoveSet('laurin2'));
+    expect(p1.anim).not.toBe(baseAnim);
+    expect(p1.state).toBe('transform');
+    // no attacks while the transform animation plays
+    sim.step({ [P1_KEYS.attack1]: true });
+    expect(p1.attacking1).toBe(false);
+    for (let i = 0; i < Math.ceil(TRANSFORM_ANIM_TIME * 60); i++) sim.step({});
+    expect(p1.transforming).toBe(false);
+
+    for (let i = 0; i < Math.ceil(TRANSFORM_DURATION * 60); i++) sim.step({});
+    expect(p1.transformed).toBe(false);
+    expect((p1 as any).characterId).toBe('laurin');
+    expect(p1.anim).toBe(baseAnim);
+    // cooldown: pressing again right after the revert does nothing
+    for (let i = 0; i < Math.ceil(TRANSFORM_ANIM_TIME * 60) + 1; i++) sim.step({});
+    sim.step({ [P1_KEYS.transform!]: true });
+    expect(p1.transformed).toBe(false);
+  });
+});